@@ -0,0 +1,18 @@
+-- Every processed Drive change, one row per watched folder it matched
+CREATE TABLE IF NOT EXISTS change_history (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	account_id TEXT NOT NULL,
+	file_id TEXT NOT NULL,
+	name TEXT,
+	event_type TEXT NOT NULL,
+	folder_id TEXT NOT NULL,
+	actor TEXT,
+	changed_at INTEGER NOT NULL,
+	page_token TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_history_account_time
+	ON change_history (account_id, changed_at);
+
+CREATE INDEX IF NOT EXISTS idx_change_history_folder_time
+	ON change_history (account_id, folder_id, changed_at);
@@ -0,0 +1,38 @@
+import { logger } from "../src/utils";
+
+// Update or add a key
+function updateEnvValue(content: string, key: string, value: string): string {
+	const regex = new RegExp(`^${key}=.*$`, "m");
+	if (regex.test(content)) {
+		return content.replace(regex, `${key}=${value}`);
+	}
+	return `${content}\n${key}=${value}`;
+}
+
+async function main() {
+	// 32 random bytes → AES-256 key used to seal credentials in KV
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	const masterKey = btoa(String.fromCharCode(...bytes));
+	logger.log("🔑 Generated master key");
+
+	// Read the .env file
+	const envFile = Bun.file("./.env");
+	const content = await envFile.text();
+
+	// Keep the old key around so `/secrets/reseal` can re-encrypt with the new one
+	const current = content.match(/^MASTER_KEY="?([^"\n]*)"?$/m)?.[1];
+	let updated = updateEnvValue(content, "MASTER_KEY", `"${masterKey}"`);
+	if (current) {
+		updated = updateEnvValue(updated, "MASTER_KEY_PREVIOUS", `"${current}"`);
+		logger.log("♻️ Previous key moved to MASTER_KEY_PREVIOUS.");
+	}
+	logger.log("✍️ Updated .env file with new key.");
+
+	// Write back to the file
+	await Bun.write(".env", updated);
+}
+
+main().catch((error) => {
+	logger.error("❌ Error generating master key:", error);
+	process.exit(1);
+});
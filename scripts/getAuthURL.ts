@@ -1,9 +1,23 @@
 import { generateAuthUrl } from "../src/helper";
+import {
+	DEFAULT_SCOPE_PROFILE,
+	SCOPE_PROFILES,
+	type ScopeProfile,
+} from "../src/scopes";
 import { logger } from "../src/utils";
 
 async function main() {
-	const authUrl = generateAuthUrl();
-	logger.log(`🔗 Generated Auth URL: ${authUrl}`);
+	// bun run getAuthURL [metadata|readonly|file|full]
+	const profile = (process.argv[2] ?? DEFAULT_SCOPE_PROFILE) as ScopeProfile;
+
+	if (!(profile in SCOPE_PROFILES)) {
+		throw new Error(
+			`Unknown scope profile "${profile}"; use one of: ${Object.keys(SCOPE_PROFILES).join(", ")}`,
+		);
+	}
+
+	const authUrl = generateAuthUrl(undefined, { profile });
+	logger.log(`🔗 Generated Auth URL (${profile}): ${authUrl}`);
 }
 
 main().catch((error) => {
@@ -0,0 +1,45 @@
+import { DEFAULT_ACCOUNT_ID } from "../src/accounts";
+import type { DisconnectReport } from "../src/oauth";
+import { logger } from "../src/utils";
+
+async function main() {
+	// bun run revokeToken [account_id]
+	const accountId = process.argv[2] ?? DEFAULT_ACCOUNT_ID;
+	const workerUrl = process.env.WORKER_URL ?? "http://localhost:8787";
+	const authKey = process.env.WEBHOOK_AUTH_KEY;
+
+	if (!authKey) {
+		throw new Error("WEBHOOK_AUTH_KEY is required to call the worker.");
+	}
+
+	// The worker stops the account's channels and clears its KV as well
+	const res = await fetch(new URL("/oauth/revoke", workerUrl), {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			Authorization: `Bearer ${authKey}`,
+		},
+		body: JSON.stringify({ account_id: accountId }),
+	});
+	const data = (await res.json()) as Partial<DisconnectReport> & {
+		message: string;
+		error?: string;
+	};
+
+	if (!res.ok) {
+		throw new Error(
+			`Worker answered ${res.status}: ${data.error ?? data.message}`,
+		);
+	}
+
+	if (data.revocation === "already_invalid") {
+		logger.warn("⚠️ Google no longer knew this token; nothing to revoke");
+	}
+
+	logger.log(`✅ Account disconnected (${accountId}):`, data);
+}
+
+main().catch((error) => {
+	logger.error("❌ Error revoking token:", error);
+	process.exit(1);
+});
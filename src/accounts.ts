@@ -0,0 +1,88 @@
+import type { AppBindings } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                             Account Namespacing                            */
+/* -------------------------------------------------------------------------- */
+
+/** Account used when no `account_id` is given; keeps the original KV keys */
+export const DEFAULT_ACCOUNT_ID = "default";
+
+export const ACCOUNT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const ACCOUNTS_KEY = "accounts";
+const CHANNEL_PREFIX = "channel";
+
+/**
+ * KV key for a per-account value. The default account keeps the un-prefixed
+ * keys so single-account deployments keep working without a migration.
+ */
+export function accountKey(accountId: string, key: string): string {
+	return accountId === DEFAULT_ACCOUNT_ID ? key : `account:${accountId}:${key}`;
+}
+
+export async function listAccounts(env: AppBindings): Promise<string[]> {
+	const raw = await env.drive_kv.get(ACCOUNTS_KEY);
+	const accounts = raw ? (JSON.parse(raw) as string[]) : [];
+
+	return accounts.includes(DEFAULT_ACCOUNT_ID)
+		? accounts
+		: [DEFAULT_ACCOUNT_ID, ...accounts];
+}
+
+export async function registerAccount(env: AppBindings, accountId: string) {
+	const accounts = await listAccounts(env);
+	if (accounts.includes(accountId)) return;
+
+	await env.drive_kv.put(
+		ACCOUNTS_KEY,
+		JSON.stringify([...accounts, accountId]),
+	);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                            Channel → Account Index                         */
+/* -------------------------------------------------------------------------- */
+
+/** What a channel watches: the account's change feed or a single file */
+export type ChannelRecord =
+	| { accountId: string; kind: "changes" }
+	| { accountId: string; kind: "file"; fileId: string };
+
+export async function linkChannel(
+	env: AppBindings,
+	channelId: string,
+	accountId: string,
+	target: { kind: "changes" } | { kind: "file"; fileId: string } = {
+		kind: "changes",
+	},
+) {
+	const record: ChannelRecord = { accountId, ...target };
+	await env.drive_kv.put(
+		`${CHANNEL_PREFIX}:${channelId}`,
+		JSON.stringify(record),
+	);
+}
+
+export async function unlinkChannel(env: AppBindings, channelId: string) {
+	await env.drive_kv.delete(`${CHANNEL_PREFIX}:${channelId}`);
+}
+
+/**
+ * Resolve what a watch channel belongs to. Channels created before accounts
+ * existed have no index entry and are the default account's change feed.
+ */
+export async function resolveChannel(
+	env: AppBindings,
+	channelId?: string | null,
+): Promise<ChannelRecord> {
+	const raw = channelId
+		? await env.drive_kv.get(`${CHANNEL_PREFIX}:${channelId}`)
+		: null;
+	if (!raw) return { accountId: DEFAULT_ACCOUNT_ID, kind: "changes" };
+
+	// Records written before file watches carry no kind
+	const record = JSON.parse(raw) as Partial<ChannelRecord>;
+	return record.kind === "file"
+		? (record as ChannelRecord)
+		: { accountId: record.accountId ?? DEFAULT_ACCOUNT_ID, kind: "changes" };
+}
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { resolveAncestry, syncFolderNode } from "./ancestry";
+import type { AppBindings, WatchedFolder } from "./types";
+import { createMockEnv, mockFetch } from "./testing";
+
+// watched ← Reports (sub) ← 2026 (deep)
+const tree: Record<string, { name: string; parents?: string[] }> = {
+	watched: { name: "Watched", parents: ["root"] },
+	sub: { name: "Reports", parents: ["watched"] },
+	deep: { name: "2026", parents: ["sub"] },
+	root: { name: "My Drive" },
+};
+
+const driveTree = () =>
+	mockFetch((url: string) => {
+		const id = new URL(url).pathname.split("/").pop() ?? "";
+		const node = tree[id];
+		return Promise.resolve(
+			node
+				? new Response(JSON.stringify(node))
+				: new Response("{}", { status: 404 }),
+		);
+	});
+
+describe("resolveAncestry", () => {
+	let mockEnv: AppBindings;
+
+	const resolve = (parents: string[], folders: WatchedFolder[]) =>
+		resolveAncestry(mockEnv, "default", "token", parents, folders);
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+	});
+
+	test("finds recursive roots with depth and path", async () => {
+		driveTree();
+
+		const ancestry = await resolve(
+			["deep"],
+			[{ id: "watched", recursive: true, createdAt: 0 }],
+		);
+
+		expect(ancestry.get("watched")).toEqual({
+			depth: 3,
+			path: ["Reports", "2026"],
+		});
+	});
+
+	test("skips the walk when no folder is recursive", async () => {
+		const fetchMock = driveTree();
+
+		const ancestry = await resolve(["deep"], [{ id: "watched", createdAt: 0 }]);
+
+		expect(ancestry.size).toBe(0);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	test("stops climbing at the deepest max depth", async () => {
+		const fetchMock = driveTree();
+
+		const ancestry = await resolve(
+			["deep"],
+			[{ id: "watched", recursive: true, maxDepth: 2, createdAt: 0 }],
+		);
+
+		expect(ancestry.has("watched")).toBe(false);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	test("caches folders and follows moves seen in the change feed", async () => {
+		const fetchMock = driveTree();
+		const folders = [{ id: "watched", recursive: true, createdAt: 0 }];
+
+		await resolve(["deep"], folders);
+		const calls = fetchMock.mock.calls.length;
+		await resolve(["deep"], folders);
+		expect(fetchMock.mock.calls.length).toBe(calls);
+
+		// "Reports" moves out of the watched folder
+		await syncFolderNode(mockEnv, "default", {
+			file: {
+				id: "sub",
+				name: "Reports",
+				mimeType: "application/vnd.google-apps.folder",
+				parents: ["root"],
+			},
+		});
+
+		expect((await resolve(["deep"], folders)).has("watched")).toBe(false);
+	});
+});
@@ -0,0 +1,125 @@
+import { accountKey } from "./accounts";
+import type { DriveChange } from "./drive";
+import { getFile } from "./drive";
+import type { AppBindings, WatchedFolder } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                               Folder Ancestry                              */
+/* -------------------------------------------------------------------------- */
+
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+
+/** Hard cap on how far a parent chain is climbed, whatever `maxDepth` says */
+export const MAX_ANCESTRY_DEPTH = 20;
+
+/** Name and parents of a Drive folder, cached per account */
+interface FolderNode {
+	name: string;
+	parents: string[];
+}
+
+/**
+ * Recursive watched folders found above a file. Depth 1 means the folder is
+ * a direct parent; `path` lists the folder names in between, top down.
+ */
+export type FolderAncestry = Map<string, { depth: number; path: string[] }>;
+
+function folderNodeKey(accountId: string, folderId: string) {
+	return accountKey(accountId, `folder_node:${folderId}`);
+}
+
+async function getFolderNode(
+	env: AppBindings,
+	accountId: string,
+	accessToken: string,
+	folderId: string,
+): Promise<FolderNode | null> {
+	const key = folderNodeKey(accountId, folderId);
+	const cached = await env.drive_kv.get(key);
+	if (cached) return JSON.parse(cached) as FolderNode;
+
+	const res = await getFile(accessToken, folderId, ["name", "parents"]);
+
+	// Unknown or inaccessible folders end the walk without being cached
+	if (!res.ok) return null;
+
+	const { name, parents = [] } = res.data;
+	const node: FolderNode = { name: name ?? folderId, parents };
+	await env.drive_kv.put(key, JSON.stringify(node));
+
+	return node;
+}
+
+/** Keep cached folders in step with moves, renames and deletions */
+export async function syncFolderNode(
+	env: AppBindings,
+	accountId: string,
+	change: DriveChange,
+) {
+	const file = change.file;
+	const folderId = file?.id ?? change.fileId;
+
+	if (!folderId || (file && file.mimeType !== FOLDER_MIME_TYPE)) return;
+
+	const key = folderNodeKey(accountId, folderId);
+
+	// Removals carry no file, so the MIME type is unknown; dropping is harmless
+	if (!file || change.removed || file.trashed) {
+		await env.drive_kv.delete(key);
+		return;
+	}
+
+	const node: FolderNode = { name: file.name, parents: file.parents ?? [] };
+	await env.drive_kv.put(key, JSON.stringify(node));
+}
+
+/**
+ * Climb from `parents` towards the Drive root, recording every recursive
+ * watched folder passed on the way. Only climbs as far as the deepest
+ * `maxDepth` requires, and not at all when no folder is recursive.
+ */
+export async function resolveAncestry(
+	env: AppBindings,
+	accountId: string,
+	accessToken: string,
+	parents: string[],
+	folders: WatchedFolder[],
+): Promise<FolderAncestry> {
+	const ancestry: FolderAncestry = new Map();
+	const recursive = folders.filter((folder) => folder.recursive);
+
+	if (!recursive.length) return ancestry;
+
+	const roots = new Set(recursive.map((folder) => folder.id));
+	const limit = Math.min(
+		Math.max(
+			...recursive.map((folder) => folder.maxDepth ?? MAX_ANCESTRY_DEPTH),
+		),
+		MAX_ANCESTRY_DEPTH,
+	);
+
+	// Breadth-first, so each folder is recorded at its shallowest depth
+	const seen = new Set<string>();
+	let frontier = parents.map((id) => ({ id, path: [] as string[] }));
+
+	for (let depth = 1; depth <= limit && frontier.length; depth++) {
+		const next: typeof frontier = [];
+
+		for (const { id, path } of frontier) {
+			if (seen.has(id)) continue;
+			seen.add(id);
+
+			if (roots.has(id)) ancestry.set(id, { depth, path });
+			if (depth === limit) continue;
+
+			const node = await getFolderNode(env, accountId, accessToken, id);
+			for (const parent of node?.parents ?? []) {
+				next.push({ id: parent, path: [node?.name ?? id, ...path] });
+			}
+		}
+
+		frontier = next;
+	}
+
+	return ancestry;
+}
@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+	getSecret,
+	isSecretKey,
+	openSecret,
+	putSecret,
+	resealSecrets,
+	sealSecret,
+	signValue,
+	verifySignedValue,
+} from "./crypto";
+import { createMockEnv, TEST_MASTER_KEY } from "./testing";
+import type { AppBindings } from "./types";
+
+const KEY_A = TEST_MASTER_KEY;
+const KEY_B = btoa("fedcba9876543210fedcba9876543210");
+
+describe("Secret sealing", () => {
+	let mockEnv: AppBindings;
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+	});
+
+	test("round-trips a value with a fresh IV every time", async () => {
+		const first = await sealSecret(mockEnv, "refresh-me");
+		const second = await sealSecret(mockEnv, "refresh-me");
+
+		expect(first).toStartWith("enc:v1:");
+		expect(first).not.toContain("refresh-me");
+		expect(first).not.toBe(second);
+		expect(await openSecret(mockEnv, first)).toBe("refresh-me");
+	});
+
+	test("passes legacy plaintext through unchanged", async () => {
+		expect(await openSecret(mockEnv, "plain-token")).toBe("plain-token");
+	});
+
+	test("rejects values sealed with an unknown key", async () => {
+		const sealed = await sealSecret(mockEnv, "secret");
+
+		await expect(
+			openSecret({ ...mockEnv, MASTER_KEY: KEY_B }, sealed),
+		).rejects.toThrow("No master key");
+	});
+
+	test("refuses to seal without a master key", async () => {
+		await expect(
+			sealSecret({ ...mockEnv, MASTER_KEY: "" }, "secret"),
+		).rejects.toThrow("MASTER_KEY");
+	});
+
+	test("only treats credential keys as secrets", () => {
+		expect(isSecretKey("refreshToken")).toBe(true);
+		expect(isSecretKey("account:team_b:client_secret")).toBe(true);
+		expect(isSecretKey("client_id")).toBe(false);
+		expect(isSecretKey("accessTokenExpiry")).toBe(false);
+	});
+});
+
+describe("Value signing", () => {
+	let mockEnv: AppBindings;
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+	});
+
+	test("round-trips a value signed for the same purpose", async () => {
+		const signed = await signValue(mockEnv, "oauth-state", "abc.123");
+
+		expect(signed).toStartWith("abc.123.");
+		expect(await verifySignedValue(mockEnv, "oauth-state", signed)).toBe(
+			"abc.123",
+		);
+	});
+
+	test("rejects tampering, other purposes and other keys", async () => {
+		const signed = await signValue(mockEnv, "oauth-state", "abc.123");
+
+		expect(
+			await verifySignedValue(
+				mockEnv,
+				"oauth-state",
+				signed.replace("abc", "abd"),
+			),
+		).toBeNull();
+		expect(await verifySignedValue(mockEnv, "other", signed)).toBeNull();
+		expect(
+			await verifySignedValue(
+				{ ...mockEnv, MASTER_KEY: KEY_B },
+				"oauth-state",
+				signed,
+			),
+		).toBeNull();
+		expect(
+			await verifySignedValue(mockEnv, "oauth-state", "no-signature"),
+		).toBeNull();
+	});
+});
+
+describe("resealSecrets", () => {
+	let mockEnv: AppBindings;
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+	});
+
+	test("encrypts plaintext credentials of every account", async () => {
+		await mockEnv.drive_kv.put("accounts", JSON.stringify(["team_b"]));
+		await mockEnv.drive_kv.put("refreshToken", "default_refresh");
+		await mockEnv.drive_kv.put("account:team_b:client_secret", "b_secret");
+		await mockEnv.drive_kv.put("client_id", "client_id");
+
+		const report = await resealSecrets(mockEnv);
+
+		expect(report).toEqual({ migrated: 2, rotated: 0, unchanged: 0 });
+		expect(await mockEnv.drive_kv.get("refreshToken")).toStartWith("enc:v1:");
+		expect(await getSecret(mockEnv, "account:team_b:client_secret")).toBe(
+			"b_secret",
+		);
+		expect(await mockEnv.drive_kv.get("client_id")).toBe("client_id");
+	});
+
+	test("re-encrypts values sealed with the previous key", async () => {
+		await putSecret(mockEnv, "accessToken", "access");
+
+		const rotated = {
+			...mockEnv,
+			MASTER_KEY: KEY_B,
+			MASTER_KEY_PREVIOUS: KEY_A,
+		};
+		expect(await resealSecrets(rotated)).toEqual({
+			migrated: 0,
+			rotated: 1,
+			unchanged: 0,
+		});
+
+		// The old key is no longer needed once resealed
+		const current = { ...mockEnv, MASTER_KEY: KEY_B };
+		expect(await getSecret(current, "accessToken")).toBe("access");
+		expect(await resealSecrets(current)).toEqual({
+			migrated: 0,
+			rotated: 0,
+			unchanged: 1,
+		});
+	});
+});
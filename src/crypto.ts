@@ -0,0 +1,294 @@
+import { accountKey, listAccounts } from "./accounts";
+import type { AppBindings } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                         Envelope Encryption at Rest                        */
+/* -------------------------------------------------------------------------- */
+
+/** KV keys holding OAuth credentials; stored values are sealed */
+export const SECRET_KEYS = [
+	"client_secret",
+	"refreshToken",
+	"accessToken",
+	"auth_code",
+] as const;
+
+const SEALED_PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+interface MasterKey {
+	id: string;
+	key: CryptoKey;
+}
+
+function toBase64(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+	return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+// Short fingerprint stored with each value so rotation knows which key sealed it
+async function keyId(raw: Uint8Array<ArrayBuffer>): Promise<string> {
+	const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", raw));
+	return Array.from(digest.slice(0, 4))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+async function importMasterKey(encoded: string): Promise<MasterKey> {
+	const raw = fromBase64(encoded);
+	if (raw.byteLength !== 32) {
+		throw new Error("🚨 Master key must be 32 bytes, base64 encoded");
+	}
+
+	return {
+		id: await keyId(raw),
+		key: await crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+			"encrypt",
+			"decrypt",
+		]),
+	};
+}
+
+async function currentMasterKey(env: AppBindings): Promise<MasterKey> {
+	if (!env.MASTER_KEY) {
+		throw new Error("🚨 MASTER_KEY secret is not configured");
+	}
+	return importMasterKey(env.MASTER_KEY);
+}
+
+async function masterKeyById(env: AppBindings, id: string) {
+	for (const encoded of [env.MASTER_KEY, env.MASTER_KEY_PREVIOUS]) {
+		if (!encoded) continue;
+
+		const candidate = await importMasterKey(encoded);
+		if (candidate.id === id) return candidate;
+	}
+
+	throw new Error(`🚨 No master key matches sealed value (key ${id})`);
+}
+
+async function aesEncrypt(key: CryptoKey, data: Uint8Array<ArrayBuffer>) {
+	const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+	const ciphertext = new Uint8Array(
+		await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data),
+	);
+
+	const out = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+	out.set(iv);
+	out.set(ciphertext, IV_BYTES);
+	return toBase64(out);
+}
+
+async function aesDecrypt(key: CryptoKey, encoded: string) {
+	const bytes = fromBase64(encoded);
+	return new Uint8Array(
+		await crypto.subtle.decrypt(
+			{ name: "AES-GCM", iv: bytes.slice(0, IV_BYTES) },
+			key,
+			bytes.slice(IV_BYTES),
+		),
+	);
+}
+
+export function isSealed(value: string): boolean {
+	return value.startsWith(SEALED_PREFIX);
+}
+
+/**
+ * Encrypt `plaintext` under a fresh data key, then wrap the data key with the
+ * master key. Format: `enc:v1:<keyId>:<wrappedDataKey>:<ciphertext>`.
+ */
+export async function sealSecret(
+	env: AppBindings,
+	plaintext: string,
+): Promise<string> {
+	const master = await currentMasterKey(env);
+	const dataKey = crypto.getRandomValues(new Uint8Array(32));
+	const key = await crypto.subtle.importKey("raw", dataKey, "AES-GCM", false, [
+		"encrypt",
+	]);
+
+	const [wrappedKey, ciphertext] = await Promise.all([
+		aesEncrypt(master.key, dataKey),
+		aesEncrypt(key, encoder.encode(plaintext)),
+	]);
+
+	return `${SEALED_PREFIX}${master.id}:${wrappedKey}:${ciphertext}`;
+}
+
+/** Decrypt a sealed value; legacy plaintext is returned unchanged */
+export async function openSecret(
+	env: AppBindings,
+	stored: string,
+): Promise<string> {
+	if (!isSealed(stored)) return stored;
+
+	const [id, wrappedKey, ciphertext] = stored
+		.slice(SEALED_PREFIX.length)
+		.split(":");
+	if (!id || !wrappedKey || !ciphertext) {
+		throw new Error("🚨 Malformed sealed value");
+	}
+
+	const master = await masterKeyById(env, id);
+	const dataKey = await aesDecrypt(master.key, wrappedKey);
+	const key = await crypto.subtle.importKey("raw", dataKey, "AES-GCM", false, [
+		"decrypt",
+	]);
+
+	return decoder.decode(await aesDecrypt(key, ciphertext));
+}
+
+// `account:<id>:refreshToken` and `refreshToken` are both secrets
+export function isSecretKey(key: string): boolean {
+	const name = key.slice(key.lastIndexOf(":") + 1);
+	return (SECRET_KEYS as readonly string[]).includes(name);
+}
+
+export async function putSecret(env: AppBindings, key: string, value: string) {
+	await env.drive_kv.put(key, await sealSecret(env, value));
+}
+
+export async function getSecret(
+	env: AppBindings,
+	key: string,
+): Promise<string | null> {
+	const stored = await env.drive_kv.get(key);
+	return stored ? openSecret(env, stored) : null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Signing                                   */
+/* -------------------------------------------------------------------------- */
+
+export function toBase64Url(bytes: Uint8Array): string {
+	return toBase64(bytes)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+	return fromBase64(value.replace(/-/g, "+").replace(/_/g, "/"));
+}
+
+// HMAC key derived from the master key, one per purpose
+async function signingKey(env: AppBindings, purpose: string) {
+	if (!env.MASTER_KEY) {
+		throw new Error("🚨 MASTER_KEY secret is not configured");
+	}
+
+	const base = await crypto.subtle.importKey(
+		"raw",
+		fromBase64(env.MASTER_KEY),
+		"HKDF",
+		false,
+		["deriveKey"],
+	);
+
+	return crypto.subtle.deriveKey(
+		{
+			name: "HKDF",
+			hash: "SHA-256",
+			salt: new Uint8Array(),
+			info: encoder.encode(purpose),
+		},
+		base,
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign", "verify"],
+	);
+}
+
+/** `<value>.<signature>`, signed with a key only used for `purpose` */
+export async function signValue(
+	env: AppBindings,
+	purpose: string,
+	value: string,
+): Promise<string> {
+	const key = await signingKey(env, purpose);
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		key,
+		encoder.encode(value),
+	);
+
+	return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** The value of a `signValue` result, or `null` if the signature is wrong */
+export async function verifySignedValue(
+	env: AppBindings,
+	purpose: string,
+	signed: string,
+): Promise<string | null> {
+	const dot = signed.lastIndexOf(".");
+	if (dot <= 0) return null;
+
+	const value = signed.slice(0, dot);
+	let signature: Uint8Array<ArrayBuffer>;
+	try {
+		signature = fromBase64Url(signed.slice(dot + 1));
+	} catch {
+		return null;
+	}
+
+	const key = await signingKey(env, purpose);
+	const valid = await crypto.subtle.verify(
+		"HMAC",
+		key,
+		signature,
+		encoder.encode(value),
+	);
+
+	return valid ? value : null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           Migration & Key Rotation                         */
+/* -------------------------------------------------------------------------- */
+
+export interface ResealReport {
+	/** Plaintext values that were encrypted */
+	migrated: number;
+
+	/** Values re-encrypted from the previous master key */
+	rotated: number;
+
+	/** Values already sealed with the current master key */
+	unchanged: number;
+}
+
+/**
+ * Bring every stored credential under the current `MASTER_KEY`: plaintext
+ * values are encrypted and values sealed with `MASTER_KEY_PREVIOUS` are
+ * re-encrypted. Safe to run repeatedly.
+ */
+export async function resealSecrets(env: AppBindings): Promise<ResealReport> {
+	const master = await currentMasterKey(env);
+	const report: ResealReport = { migrated: 0, rotated: 0, unchanged: 0 };
+
+	for (const accountId of await listAccounts(env)) {
+		for (const name of SECRET_KEYS) {
+			const key = accountKey(accountId, name);
+			const stored = await env.drive_kv.get(key);
+			if (!stored) continue;
+
+			if (stored.startsWith(`${SEALED_PREFIX}${master.id}:`)) {
+				report.unchanged += 1;
+				continue;
+			}
+
+			report[isSealed(stored) ? "rotated" : "migrated"] += 1;
+			await putSecret(env, key, await openSecret(env, stored));
+		}
+	}
+
+	return report;
+}
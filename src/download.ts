@@ -0,0 +1,238 @@
+import { type DriveFile, fetchFileContent, getFile, listFiles } from "./drive";
+
+/* -------------------------------------------------------------------------- */
+/*                             Google Docs Export                             */
+/* -------------------------------------------------------------------------- */
+
+const GOOGLE_DOCUMENT = "application/vnd.google-apps.document";
+const GOOGLE_SPREADSHEET = "application/vnd.google-apps.spreadsheet";
+const GOOGLE_PRESENTATION = "application/vnd.google-apps.presentation";
+
+/** Export targets and the native types that can be converted to each */
+export const EXPORT_FORMATS = {
+	pdf: {
+		mimeType: "application/pdf",
+		from: [GOOGLE_DOCUMENT, GOOGLE_SPREADSHEET, GOOGLE_PRESENTATION],
+	},
+	docx: {
+		mimeType:
+			"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+		from: [GOOGLE_DOCUMENT],
+	},
+	xlsx: {
+		mimeType:
+			"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+		from: [GOOGLE_SPREADSHEET],
+	},
+	csv: { mimeType: "text/csv", from: [GOOGLE_SPREADSHEET] },
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export function isGoogleNative(mimeType: string) {
+	return [GOOGLE_DOCUMENT, GOOGLE_SPREADSHEET, GOOGLE_PRESENTATION].includes(
+		mimeType,
+	);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Download Targets                              */
+/* -------------------------------------------------------------------------- */
+
+export type DriveFileMetadata = Pick<DriveFile, "id" | "name" | "mimeType">;
+
+export type DownloadFailure = {
+	ok: false;
+	status: 400 | 404 | 502;
+	message: string;
+};
+
+export type DownloadTarget =
+	| { ok: true; file: DriveFileMetadata; exportAs?: ExportFormat }
+	| DownloadFailure;
+
+// Drive query literals are single-quoted with backslash escapes
+function quote(value: string) {
+	return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+async function getFileMetadata(
+	accessToken: string,
+	fileId: string,
+): Promise<DriveFileMetadata | number> {
+	const res = await getFile(accessToken, fileId, ["id", "name", "mimeType"]);
+	return res.ok ? res.data : res.status;
+}
+
+/** Most recently modified, non-trashed file called `name` in `folderIds` */
+async function findFileByName(
+	accessToken: string,
+	name: string,
+	folderIds: string[],
+	driveId: string | null,
+): Promise<DriveFileMetadata | null | number> {
+	const parents = folderIds
+		.map((folderId) => `${quote(folderId)} in parents`)
+		.join(" or ");
+
+	const res = await listFiles(accessToken, {
+		q: `name = ${quote(name)} and (${parents}) and trashed = false`,
+		fields: ["id", "name", "mimeType"],
+		driveId,
+		orderBy: "modifiedTime desc",
+		pageSize: 1,
+	});
+	if (!res.ok) return res.status;
+
+	return res.data.files?.[0] ?? null;
+}
+
+/**
+ * Resolve what to download: by ID, or by name inside the given folders, and
+ * whether it has to go through `files.export`.
+ */
+export async function resolveDownloadTarget(
+	accessToken: string,
+	request: {
+		fileId?: string;
+		fileName?: string;
+		folderIds: string[];
+		driveId: string | null;
+		format?: ExportFormat;
+	},
+): Promise<DownloadTarget> {
+	let found: DriveFileMetadata | null | number;
+
+	if (request.fileId) {
+		found = await getFileMetadata(accessToken, request.fileId);
+	} else if (request.fileName && request.folderIds.length) {
+		found = await findFileByName(
+			accessToken,
+			request.fileName,
+			request.folderIds,
+			request.driveId,
+		);
+	} else {
+		return {
+			ok: false,
+			status: 400,
+			message: "Looking up a file by name needs a watched folder",
+		};
+	}
+
+	if (found === null || found === 404) {
+		return { ok: false, status: 404, message: "File not found" };
+	}
+
+	if (typeof found === "number") {
+		return { ok: false, status: 502, message: `Drive API error (${found})` };
+	}
+
+	if (!isGoogleNative(found.mimeType)) {
+		return request.format
+			? {
+					ok: false,
+					status: 400,
+					message: "Only Google Docs, Sheets and Slides can be exported",
+				}
+			: { ok: true, file: found };
+	}
+
+	const format = request.format ?? "pdf";
+	const allowed = EXPORT_FORMATS[format].from as readonly string[];
+
+	if (!allowed.includes(found.mimeType)) {
+		const supported = Object.entries(EXPORT_FORMATS)
+			.filter(([, target]) =>
+				(target.from as readonly string[]).includes(found.mimeType),
+			)
+			.map(([name]) => name);
+
+		return {
+			ok: false,
+			status: 400,
+			message: `Cannot export this file as ${format}; supported: ${supported.join(", ")}`,
+		};
+	}
+
+	return { ok: true, file: found, exportAs: format };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Streaming Download                            */
+/* -------------------------------------------------------------------------- */
+
+// Conditional and partial requests are answered by Drive itself
+const FORWARDED_REQUEST_HEADERS = ["Range", "If-None-Match"];
+const FORWARDED_RESPONSE_HEADERS = [
+	"Content-Type",
+	"Content-Length",
+	"Content-Range",
+	"Accept-Ranges",
+	"ETag",
+	"Last-Modified",
+];
+
+function attachment(name: string) {
+	const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, "_");
+	return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+// Statuses whose upstream body (or lack of one) belongs to the client
+const PASS_THROUGH_STATUSES = [200, 206, 304, 416];
+
+/**
+ * Fetch the file (or its export) and hand the upstream body back unread, so
+ * memory use stays flat regardless of file size.
+ */
+export async function streamDownload(
+	accessToken: string,
+	target: Extract<DownloadTarget, { ok: true }>,
+	requestHeaders: Headers,
+): Promise<Response | DownloadFailure> {
+	const { file, exportAs } = target;
+
+	const headers = new Headers();
+	for (const name of FORWARDED_REQUEST_HEADERS) {
+		const value = requestHeaders.get(name);
+		if (value) headers.set(name, value);
+	}
+
+	const upstream = await fetchFileContent(accessToken, file.id, {
+		exportMimeType: exportAs && EXPORT_FORMATS[exportAs].mimeType,
+		headers,
+	});
+
+	if (!PASS_THROUGH_STATUSES.includes(upstream.status)) {
+		await upstream.body?.cancel();
+		return upstream.status === 404
+			? { ok: false, status: 404, message: "File not found" }
+			: {
+					ok: false,
+					status: 502,
+					message: `Drive download failed (${upstream.status})`,
+				};
+	}
+
+	const responseHeaders = new Headers();
+	for (const name of FORWARDED_RESPONSE_HEADERS) {
+		const value = upstream.headers.get(name);
+		if (value) responseHeaders.set(name, value);
+	}
+
+	if (!responseHeaders.has("Content-Type")) {
+		responseHeaders.set(
+			"Content-Type",
+			exportAs ? EXPORT_FORMATS[exportAs].mimeType : file.mimeType,
+		);
+	}
+	responseHeaders.set(
+		"Content-Disposition",
+		attachment(exportAs ? `${file.name}.${exportAs}` : file.name),
+	);
+
+	return new Response(upstream.body, {
+		status: upstream.status,
+		headers: responseHeaders,
+	});
+}
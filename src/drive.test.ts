@@ -0,0 +1,166 @@
+import { describe, expect, test } from "bun:test";
+import {
+	buildAuthUrl,
+	exchangeAuthCode,
+	getFile,
+	listFiles,
+	revokeToken,
+	stopChannel,
+	watchChanges,
+} from "./drive";
+import { OAuthError } from "./reauth";
+import { jsonResponse, mockFetch } from "./testing";
+
+describe("Drive requests", () => {
+	test("sends the bearer token and shared drive params", async () => {
+		const fetchMock = mockFetch(() =>
+			jsonResponse({ id: "file1", name: "a.txt" }),
+		);
+
+		const res = await getFile("token", "file1", ["id", "name"]);
+
+		expect(res).toEqual({ ok: true, data: { id: "file1", name: "a.txt" } });
+		const [url, init] = fetchMock.mock.calls[0] ?? [];
+		const parsed = new URL(String(url));
+		expect(parsed.pathname).toBe("/drive/v3/files/file1");
+		expect(parsed.searchParams.get("fields")).toBe("id,name");
+		expect(parsed.searchParams.get("supportsAllDrives")).toBe("true");
+		expect(new Headers(init?.headers).get("Authorization")).toBe(
+			"Bearer token",
+		);
+	});
+
+	test("lists a shared drive's corpus", async () => {
+		const fetchMock = mockFetch(() => jsonResponse({ files: [] }));
+
+		await listFiles("token", { q: "trashed = false", fields: ["id"], driveId: "d1" });
+
+		const url = new URL(String(fetchMock.mock.calls[0]?.[0]));
+		expect(url.searchParams.get("corpora")).toBe("drive");
+		expect(url.searchParams.get("driveId")).toBe("d1");
+		expect(url.searchParams.get("fields")).toBe("nextPageToken,files(id)");
+	});
+
+	test("posts the channel for changes.watch", async () => {
+		const fetchMock = mockFetch(() =>
+			jsonResponse({ id: "channel1", resourceId: "resource1" }),
+		);
+
+		const res = await watchChanges({
+			accessToken: "token",
+			startPageToken: "42",
+			channelId: "channel1",
+			webhookUrl: "https://example.com/drive/webhook",
+			expiration: 1000,
+			webhookToken: "secret",
+		});
+
+		expect(res.ok && res.data.resourceId).toBe("resource1");
+		const [url, init] = fetchMock.mock.calls[0] ?? [];
+		expect(new URL(String(url)).searchParams.get("pageToken")).toBe("42");
+		expect(init?.method).toBe("POST");
+		expect(JSON.parse(String(init?.body))).toMatchObject({
+			id: "channel1",
+			type: "web_hook",
+			token: "secret",
+		});
+	});
+
+	test("accepts an empty 204 answer", async () => {
+		mockFetch(() => new Response(null, { status: 204 }));
+
+		const res = await stopChannel({
+			accessToken: "token",
+			channelId: "channel1",
+			resourceId: "resource1",
+		});
+
+		expect(res).toEqual({ ok: true, data: undefined });
+	});
+
+	test("returns the status and body of errors", async () => {
+		mockFetch(() => new Response("File not found", { status: 404 }));
+
+		const res = await getFile("token", "missing", ["id"]);
+
+		expect(res).toEqual({ ok: false, status: 404, error: "File not found" });
+	});
+});
+
+describe("OAuth", () => {
+	test("builds an offline consent URL with a PKCE challenge", () => {
+		const url = new URL(
+			buildAuthUrl({
+				clientId: "client",
+				redirectUri: "https://example.com/oauth/callback",
+				scopes: ["scope.a", "scope.b"],
+				state: "state1",
+				codeChallenge: "challenge",
+			}),
+		);
+
+		expect(url.origin + url.pathname).toBe(
+			"https://accounts.google.com/o/oauth2/v2/auth",
+		);
+		expect(Object.fromEntries(url.searchParams)).toEqual({
+			access_type: "offline",
+			prompt: "consent",
+			response_type: "code",
+			scope: "scope.a scope.b",
+			client_id: "client",
+			redirect_uri: "https://example.com/oauth/callback",
+			state: "state1",
+			code_challenge: "challenge",
+			code_challenge_method: "S256",
+		});
+	});
+
+	test("exchanges a code for tokens with an expiry date", async () => {
+		const fetchMock = mockFetch(() =>
+			jsonResponse({
+				access_token: "access",
+				refresh_token: "refresh",
+				expires_in: 3600,
+				token_type: "Bearer",
+			}),
+		);
+		const before = Date.now();
+
+		const token = await exchangeAuthCode({
+			clientId: "client",
+			clientSecret: "secret",
+			code: "code1",
+			codeVerifier: "verifier",
+		});
+
+		expect(token.access_token).toBe("access");
+		expect(token.refresh_token).toBe("refresh");
+		expect(token.expiry_date).toBeGreaterThanOrEqual(before + 3600 * 1000);
+		const body = new URLSearchParams(String(fetchMock.mock.calls[0]?.[1]?.body));
+		expect(body.get("grant_type")).toBe("authorization_code");
+		expect(body.get("code_verifier")).toBe("verifier");
+		expect(body.has("redirect_uri")).toBe(false);
+	});
+
+	test("throws token endpoint errors as OAuthError", async () => {
+		mockFetch(() => jsonResponse({ error: "invalid_grant" }, 400));
+
+		const error = await exchangeAuthCode({
+			clientId: "client",
+			clientSecret: "secret",
+			code: "used",
+		}).catch((e) => e);
+
+		expect(error).toBeInstanceOf(OAuthError);
+		expect(error.code).toBe("invalid_grant");
+	});
+
+	test("reports revocation failures without throwing", async () => {
+		mockFetch(() => jsonResponse({ error: "invalid_token" }, 400));
+
+		const res = await revokeToken("stale");
+
+		expect(res.ok).toBe(false);
+		expect(!res.ok && res.status).toBe(400);
+	});
+});
@@ -0,0 +1,419 @@
+import { parseOAuthError } from "./reauth";
+import type { FileWatchChannel, OAuthToken, WatchChannel } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Models                                   */
+/* -------------------------------------------------------------------------- */
+
+const DRIVE_API = "https://www.googleapis.com/drive/v3";
+const AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
+const REVOKE_URL = "https://oauth2.googleapis.com/revoke";
+
+/** Drive answer, or the status and body of the error */
+export type DriveResult<T> =
+	| { ok: true; data: T }
+	| { ok: false; status: number; error: string };
+
+/** `files` resource; only the requested `fields` are present */
+export interface DriveFile {
+	id: string;
+	name: string;
+	mimeType: string;
+	parents?: string[];
+	trashed?: boolean;
+	createdTime?: string;
+	modifiedTime?: string;
+}
+
+export interface DriveFileList<F> {
+	files: F[];
+	nextPageToken?: string;
+}
+
+/** What change processing classifies a file change as */
+export const CHANGE_EVENT_TYPES = [
+	"created",
+	"modified",
+	"renamed",
+	"moved",
+	"trashed",
+	"removed",
+] as const;
+
+export type ChangeEventType = (typeof CHANGE_EVENT_TYPES)[number];
+
+/** `changes` resource, plus what change processing learned about it */
+export interface DriveChange {
+	changeType?: string;
+	fileId?: string;
+	removed?: boolean;
+	time?: string;
+	file?: {
+		id: string;
+		name: string;
+		mimeType?: string;
+		parents?: string[];
+		trashed?: boolean;
+		createdTime?: string;
+		modifiedTime?: string;
+		/** Content checksum; absent for Docs, Sheets and Slides */
+		md5Checksum?: string;
+		/** Current content revision of binary files */
+		headRevisionId?: string;
+		/** Monotonic file version, bumped on every change */
+		version?: string;
+		lastModifyingUser?: DriveUser;
+		owners?: DriveUser[];
+		/** Size in bytes; absent for Docs, Sheets and Slides */
+		size?: string;
+	};
+	/** What happened to the file, set for changes in watched folders */
+	type?: ChangeEventType;
+	/** IDs of the watched folders this change belongs to */
+	folders?: string[];
+	/** Labels attached by `tag` rules */
+	tags?: string[];
+}
+
+export interface DriveUser {
+	displayName?: string;
+	emailAddress?: string;
+}
+
+export interface DriveChangeList {
+	changes?: DriveChange[];
+	nextPageToken?: string;
+	newStartPageToken?: string;
+}
+
+/** Push channel created by `changes.watch` or `files.watch` */
+export interface DriveChannel {
+	id: string;
+	/** Opaque ID of the watched resource, needed to stop the channel */
+	resourceId: string;
+	resourceUri?: string;
+	/** Expiry in milliseconds since epoch, as a string */
+	expiration?: string;
+}
+
+/** Answer of the token endpoint */
+export interface TokenResponse {
+	access_token: string;
+	/** Lifetime of the access token in seconds */
+	expires_in: number;
+	/** Only on the first exchange of an `access_type=offline` grant */
+	refresh_token?: string;
+	scope?: string;
+	token_type: string;
+	id_token?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Requests                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Query parameters every Drive call needs to see shared drive items. Only
+ * change listings accept `includeItemsFromAllDrives`.
+ */
+export function driveParams(
+	driveId?: string | null,
+	{ listing = true } = {},
+): URLSearchParams {
+	const params = new URLSearchParams({ supportsAllDrives: "true" });
+
+	if (driveId) {
+		params.set("driveId", driveId);
+		if (listing) params.set("includeItemsFromAllDrives", "true");
+	}
+
+	return params;
+}
+
+async function driveRequest<T>(
+	accessToken: string,
+	path: string,
+	init: { method?: string; params?: URLSearchParams; body?: unknown } = {},
+): Promise<DriveResult<T>> {
+	const query = init.params ? `?${init.params}` : "";
+	const res = await fetch(`${DRIVE_API}${path}${query}`, {
+		method: init.method ?? "GET",
+		headers: {
+			Authorization: `Bearer ${accessToken}`,
+			...(init.body !== undefined && { "Content-Type": "application/json" }),
+		},
+		body: init.body === undefined ? undefined : JSON.stringify(init.body),
+	});
+
+	if (!res.ok)
+		return { ok: false, status: res.status, error: await res.text() };
+
+	// channels.stop answers 204 without a body
+	const data = res.status === 204 ? undefined : await res.json();
+	return { ok: true, data: data as T };
+}
+
+const fileId = (id: string) => `/files/${encodeURIComponent(id)}`;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Changes                                  */
+/* -------------------------------------------------------------------------- */
+
+export function getStartPageToken(
+	accessToken: string,
+	driveId?: string | null,
+) {
+	return driveRequest<{ startPageToken: string }>(
+		accessToken,
+		"/changes/startPageToken",
+		{ params: driveParams(driveId, { listing: false }) },
+	);
+}
+
+export function listChanges(
+	accessToken: string,
+	request: { pageToken: string; fields: string; driveId?: string | null },
+) {
+	const params = driveParams(request.driveId);
+	params.set("pageToken", request.pageToken);
+	params.set("fields", request.fields);
+
+	return driveRequest<DriveChangeList>(accessToken, "/changes", { params });
+}
+
+export function watchChanges(options: WatchChannel) {
+	const params = driveParams(options.driveId);
+	params.set("pageToken", options.startPageToken);
+
+	return driveRequest<DriveChannel>(options.accessToken, "/changes/watch", {
+		method: "POST",
+		params,
+		body: {
+			id: options.channelId,
+			type: "web_hook",
+			address: options.webhookUrl,
+			expiration: options.expiration,
+			token: options.webhookToken,
+		},
+	});
+}
+
+export function stopChannel(options: {
+	accessToken: string;
+	channelId: string;
+	resourceId: string;
+}) {
+	return driveRequest<undefined>(options.accessToken, "/channels/stop", {
+		method: "POST",
+		body: { id: options.channelId, resourceId: options.resourceId },
+	});
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    Files                                   */
+/* -------------------------------------------------------------------------- */
+
+/** File metadata, typed by the `fields` asked for */
+export function getFile<K extends keyof DriveFile>(
+	accessToken: string,
+	id: string,
+	fields: K[],
+) {
+	const params = driveParams(null);
+	params.set("fields", fields.join(","));
+
+	return driveRequest<Pick<DriveFile, K>>(accessToken, fileId(id), { params });
+}
+
+export function listFiles<K extends keyof DriveFile>(
+	accessToken: string,
+	request: {
+		q: string;
+		fields: K[];
+		driveId?: string | null;
+		orderBy?: string;
+		pageSize?: number;
+	},
+) {
+	const params = driveParams(request.driveId);
+	if (request.driveId) params.set("corpora", "drive");
+
+	params.set("q", request.q);
+	params.set("fields", `nextPageToken,files(${request.fields.join(",")})`);
+	if (request.orderBy) params.set("orderBy", request.orderBy);
+	if (request.pageSize) params.set("pageSize", String(request.pageSize));
+
+	return driveRequest<DriveFileList<Pick<DriveFile, K>>>(
+		accessToken,
+		"/files",
+		{
+			params,
+		},
+	);
+}
+
+export function copyFile(
+	accessToken: string,
+	id: string,
+	file: { name?: string; parents: string[] },
+) {
+	return driveRequest<DriveFile>(accessToken, `${fileId(id)}/copy`, {
+		method: "POST",
+		params: driveParams(null),
+		body: file,
+	});
+}
+
+export function moveFile(
+	accessToken: string,
+	id: string,
+	move: { addParents: string; removeParents: string[] },
+) {
+	const params = driveParams(null);
+	params.set("addParents", move.addParents);
+	params.set("removeParents", move.removeParents.join(","));
+
+	return driveRequest<DriveFile>(accessToken, fileId(id), {
+		method: "PATCH",
+		params,
+		body: {},
+	});
+}
+
+export function watchFile(options: FileWatchChannel) {
+	return driveRequest<DriveChannel>(
+		options.accessToken,
+		`${fileId(options.fileId)}/watch`,
+		{
+			method: "POST",
+			params: driveParams(null),
+			body: {
+				id: options.channelId,
+				type: "web_hook",
+				address: options.webhookUrl,
+				expiration: options.expiration,
+				token: options.webhookToken,
+			},
+		},
+	);
+}
+
+/**
+ * File content, or a Google Docs export when `exportMimeType` is given. The
+ * response is returned unread so its body can be streamed through.
+ */
+export function fetchFileContent(
+	accessToken: string,
+	id: string,
+	options: { exportMimeType?: string; headers?: Headers } = {},
+): Promise<Response> {
+	const headers = new Headers(options.headers);
+	headers.set("Authorization", `Bearer ${accessToken}`);
+
+	const url = options.exportMimeType
+		? `${DRIVE_API}${fileId(id)}/export?${new URLSearchParams({ mimeType: options.exportMimeType })}`
+		: `${DRIVE_API}${fileId(id)}?alt=media&${driveParams(null)}`;
+
+	return fetch(url, { headers });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    OAuth                                   */
+/* -------------------------------------------------------------------------- */
+
+/** Consent URL for an offline grant, so the exchange returns a refresh token */
+export function buildAuthUrl(request: {
+	clientId?: string;
+	redirectUri?: string;
+	scopes: readonly string[];
+	state?: string;
+	codeChallenge?: string;
+}): string {
+	const params = new URLSearchParams({
+		access_type: "offline",
+		prompt: "consent",
+		response_type: "code",
+		scope: request.scopes.join(" "),
+	});
+
+	if (request.clientId) params.set("client_id", request.clientId);
+	if (request.redirectUri) params.set("redirect_uri", request.redirectUri);
+	if (request.state) params.set("state", request.state);
+	if (request.codeChallenge) {
+		params.set("code_challenge", request.codeChallenge);
+		params.set("code_challenge_method", "S256");
+	}
+
+	return `${AUTH_URL}?${params}`;
+}
+
+// Token endpoint errors are thrown as `OAuthError`
+async function tokenRequest(body: Record<string, string>) {
+	const res = await fetch(TOKEN_URL, {
+		method: "POST",
+		headers: { "Content-Type": "application/x-www-form-urlencoded" },
+		body: new URLSearchParams(body),
+	});
+
+	if (!res.ok) throw await parseOAuthError(res);
+	return res.json() as Promise<TokenResponse>;
+}
+
+/** `codeVerifier` is required when the consent URL carried a PKCE challenge */
+export async function exchangeAuthCode(request: {
+	clientId: string;
+	clientSecret: string;
+	redirectUri?: string;
+	code: string;
+	codeVerifier?: string;
+}): Promise<OAuthToken> {
+	const token = await tokenRequest({
+		grant_type: "authorization_code",
+		client_id: request.clientId,
+		client_secret: request.clientSecret,
+		code: request.code,
+		...(request.redirectUri && { redirect_uri: request.redirectUri }),
+		...(request.codeVerifier && { code_verifier: request.codeVerifier }),
+	});
+
+	return {
+		access_token: token.access_token,
+		refresh_token: token.refresh_token,
+		expiry_date: Date.now() + token.expires_in * 1000,
+		token_type: token.token_type,
+		id_token: token.id_token,
+		scope: token.scope,
+	};
+}
+
+export function refreshAccessToken(request: {
+	clientId: string;
+	clientSecret: string;
+	refreshToken: string;
+}): Promise<TokenResponse> {
+	return tokenRequest({
+		grant_type: "refresh_token",
+		client_id: request.clientId,
+		client_secret: request.clientSecret,
+		refresh_token: request.refreshToken,
+	});
+}
+
+/**
+ * Revoke a token at Google. Revoking the refresh token also ends every access
+ * token issued from it; Google answers 400 for tokens that are already invalid.
+ */
+export async function revokeToken(
+	token: string,
+): Promise<DriveResult<undefined>> {
+	const res = await fetch(REVOKE_URL, {
+		method: "POST",
+		headers: { "Content-Type": "application/x-www-form-urlencoded" },
+		body: new URLSearchParams({ token }),
+	});
+
+	if (!res.ok)
+		return { ok: false, status: res.status, error: await res.text() };
+	return { ok: true, data: undefined };
+}
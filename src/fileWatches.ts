@@ -0,0 +1,57 @@
+import { accountKey, DEFAULT_ACCOUNT_ID } from "./accounts";
+import type { AppBindings, FileWatch } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                             File Watch Registry                            */
+/* -------------------------------------------------------------------------- */
+
+const FILE_WATCHES_KEY = "file_watches";
+
+export async function listFileWatches(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<FileWatch[]> {
+	const raw = await env.drive_kv.get(accountKey(accountId, FILE_WATCHES_KEY));
+	return raw ? (JSON.parse(raw) as FileWatch[]) : [];
+}
+
+async function saveFileWatches(
+	env: AppBindings,
+	accountId: string,
+	watches: FileWatch[],
+) {
+	await env.drive_kv.put(
+		accountKey(accountId, FILE_WATCHES_KEY),
+		JSON.stringify(watches),
+	);
+}
+
+/** Insert or replace the watch on `watch.fileId` */
+export async function putFileWatch(
+	env: AppBindings,
+	watch: FileWatch,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+) {
+	const watches = await listFileWatches(env, accountId);
+	await saveFileWatches(env, accountId, [
+		...watches.filter((existing) => existing.fileId !== watch.fileId),
+		watch,
+	]);
+}
+
+export async function removeFileWatch(
+	env: AppBindings,
+	fileId: string,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<FileWatch | null> {
+	const watches = await listFileWatches(env, accountId);
+	const removed = watches.find((watch) => watch.fileId === fileId);
+	if (!removed) return null;
+
+	await saveFileWatches(
+		env,
+		accountId,
+		watches.filter((watch) => watch.fileId !== fileId),
+	);
+	return removed;
+}
@@ -0,0 +1,150 @@
+import { accountKey, DEFAULT_ACCOUNT_ID } from "./accounts";
+import type { FolderAncestry } from "./ancestry";
+import type { AppBindings, FolderFilters, WatchedFolder } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                               Folder Registry                              */
+/* -------------------------------------------------------------------------- */
+
+const WATCHED_FOLDERS_KEY = "watched_folders";
+const LEGACY_FOLDER_KEY = "drive_folder_id";
+
+export async function listWatchedFolders(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<WatchedFolder[]> {
+	const raw = await env.drive_kv.get(
+		accountKey(accountId, WATCHED_FOLDERS_KEY),
+	);
+	if (raw) {
+		return JSON.parse(raw) as WatchedFolder[];
+	}
+
+	// Deployments predating the registry tracked a single folder
+	const legacyFolderId = await env.drive_kv.get(
+		accountKey(accountId, LEGACY_FOLDER_KEY),
+	);
+	return legacyFolderId ? [{ id: legacyFolderId, createdAt: 0 }] : [];
+}
+
+export async function upsertWatchedFolder(
+	env: AppBindings,
+	folder: Omit<WatchedFolder, "createdAt">,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<WatchedFolder> {
+	const folders = await listWatchedFolders(env, accountId);
+	const existing = folders.find((f) => f.id === folder.id);
+
+	const saved: WatchedFolder = {
+		...existing,
+		...folder,
+		createdAt: existing?.createdAt || Date.now(),
+	};
+
+	await env.drive_kv.put(
+		accountKey(accountId, WATCHED_FOLDERS_KEY),
+		JSON.stringify([...folders.filter((f) => f.id !== folder.id), saved]),
+	);
+
+	return saved;
+}
+
+export async function removeWatchedFolder(
+	env: AppBindings,
+	folderId: string,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<boolean> {
+	const folders = await listWatchedFolders(env, accountId);
+	const remaining = folders.filter((f) => f.id !== folderId);
+
+	if (remaining.length === folders.length) {
+		return false;
+	}
+
+	await Promise.all([
+		env.drive_kv.put(
+			accountKey(accountId, WATCHED_FOLDERS_KEY),
+			JSON.stringify(remaining),
+		),
+		env.drive_kv.delete(accountKey(accountId, LEGACY_FOLDER_KEY)),
+	]);
+
+	return true;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Change Matching                              */
+/* -------------------------------------------------------------------------- */
+
+type MatchableFile = {
+	name?: string;
+	mimeType?: string;
+	parents?: string[];
+};
+
+export function mimeTypeMatches(patterns: string[], mimeType?: string) {
+	if (!mimeType) return false;
+
+	return patterns.some((pattern) =>
+		pattern.endsWith("/*")
+			? mimeType.startsWith(pattern.slice(0, -1))
+			: mimeType === pattern,
+	);
+}
+
+export function passesFilters(file: MatchableFile, filters?: FolderFilters) {
+	if (filters?.mimeTypes?.length) {
+		if (!mimeTypeMatches(filters.mimeTypes, file.mimeType)) return false;
+	}
+
+	if (filters?.namePattern) {
+		if (!new RegExp(filters.namePattern).test(file.name ?? "")) return false;
+	}
+
+	return true;
+}
+
+/**
+ * Whether a file with `parents` sits in `folder`: directly, or for recursive
+ * folders anywhere within `maxDepth` levels below it.
+ */
+export function isInsideFolder(
+	folder: WatchedFolder,
+	parents: string[] = [],
+	ancestry?: FolderAncestry,
+) {
+	if (parents.includes(folder.id)) return true;
+
+	const found = ancestry?.get(folder.id);
+	return Boolean(
+		folder.recursive &&
+			found &&
+			found.depth <= (folder.maxDepth ?? Number.POSITIVE_INFINITY),
+	);
+}
+
+export function matchFolders(
+	folders: WatchedFolder[],
+	file: MatchableFile,
+	ancestry?: FolderAncestry,
+): WatchedFolder[] {
+	return folders.filter(
+		(folder) =>
+			isInsideFolder(folder, file.parents, ancestry) &&
+			passesFilters(file, folder.filters),
+	);
+}
+
+/**
+ * Subscriptions to notify for a set of matched folders, or `undefined`
+ * when at least one folder fans out to every subscriber.
+ */
+export function resolveDestinations(
+	folders: WatchedFolder[],
+): string[] | undefined {
+	if (folders.some((folder) => !folder.destinations?.length)) {
+		return undefined;
+	}
+
+	return [...new Set(folders.flatMap((folder) => folder.destinations ?? []))];
+}
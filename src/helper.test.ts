@@ -0,0 +1,490 @@
+import { beforeEach, describe, expect, spyOn, test } from "bun:test";
+import {
+	classifyChange,
+	fetchAndLogChanges,
+	getOrUpdateKV,
+	getValidAccessToken,
+	renewFileWatchesIfNeeded,
+} from "./helper";
+import { getReauthState, OAuthError } from "./reauth";
+import type { AppBindings, WatchedFolder } from "./types";
+import { createMockEnv, jsonResponse, mockFetch } from "./testing";
+
+const folders: WatchedFolder[] = [{ id: "folder", createdAt: 0 }];
+
+describe("fetchAndLogChanges", () => {
+	let mockEnv: AppBindings;
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+	});
+
+	test("should walk nextPageToken until newStartPageToken arrives", async () => {
+		const pages: Record<string, unknown> = {
+			token_1: {
+				nextPageToken: "token_2",
+				changes: [{ file: { id: "a", name: "a.pdf", parents: ["folder"] } }],
+			},
+			token_2: {
+				nextPageToken: "token_3",
+				changes: [{ file: { id: "b", name: "b.pdf", parents: ["folder"] } }],
+			},
+			token_3: {
+				newStartPageToken: "token_4",
+				changes: [{ file: { id: "c", name: "c.pdf", parents: ["other"] } }],
+			},
+		};
+
+		mockFetch((url: string) => {
+			const pageToken = new URL(url).searchParams.get("pageToken") ?? "";
+			return Promise.resolve(jsonResponse(pages[pageToken]));
+		});
+
+		const result = await fetchAndLogChanges(
+			mockEnv,
+			"access_token",
+			folders,
+			"token_1",
+		);
+
+		if (typeof result === "string") throw new Error(result);
+
+		expect(result.pages).toBe(3);
+		expect(result.changes.map((change) => change.file?.id)).toEqual([
+			"a",
+			"b",
+			"c",
+		]);
+		expect(result.newStartPageToken).toBe("token_4");
+		expect(await mockEnv.drive_kv.get("drive_start_page_token")).toBe(
+			"token_4",
+		);
+	});
+
+	test("should report every watched folder a change belongs to", async () => {
+		const watched: WatchedFolder[] = [
+			{ id: "reports", label: "Reports", createdAt: 0 },
+			{
+				id: "shared",
+				filters: { mimeTypes: ["application/pdf"], namePattern: "^Q\\d" },
+				createdAt: 0,
+			},
+		];
+
+		mockFetch(() =>
+			Promise.resolve(
+				jsonResponse({
+					newStartPageToken: "token_2",
+					changes: [
+						{
+							file: {
+								id: "both",
+								name: "Q1.pdf",
+								mimeType: "application/pdf",
+								parents: ["reports", "shared"],
+							},
+						},
+						{
+							file: {
+								id: "filtered",
+								name: "notes.txt",
+								mimeType: "text/plain",
+								parents: ["shared"],
+							},
+						},
+					],
+				}),
+			),
+		);
+
+		const result = await fetchAndLogChanges(
+			mockEnv,
+			"access_token",
+			watched,
+			"token_1",
+		);
+
+		if (typeof result === "string") throw new Error(result);
+
+		expect(result.changes[0]?.folders).toEqual(["reports", "shared"]);
+		expect(result.changes[1]?.folders).toBeUndefined();
+	});
+
+	test("should checkpoint the last completed page when a page fails", async () => {
+		mockFetch((url: string) => {
+			const pageToken = new URL(url).searchParams.get("pageToken");
+			if (pageToken === "token_1") {
+				return Promise.resolve(
+					jsonResponse({ nextPageToken: "token_2", changes: [] }),
+				);
+			}
+			return Promise.resolve(new Response("Backend Error", { status: 500 }));
+		});
+
+		const result = await fetchAndLogChanges(
+			mockEnv,
+			"access_token",
+			folders,
+			"token_1",
+		);
+
+		expect(result).toBe("Drive API error");
+		expect(await mockEnv.drive_kv.get("drive_start_page_token")).toBe(
+			"token_2",
+		);
+	});
+
+	test("should resume from the stored token when none is passed", async () => {
+		await mockEnv.drive_kv.put("drive_start_page_token", "stored_token");
+
+		const fetchMock = mockFetch((_url: string) =>
+			Promise.resolve(jsonResponse({ newStartPageToken: "next_token" })),
+		);
+
+		const result = await fetchAndLogChanges(mockEnv, "access_token", folders);
+
+		if (typeof result === "string") throw new Error(result);
+
+		expect(result.pages).toBe(1);
+		expect(String(fetchMock.mock.calls[0]?.[0])).toContain(
+			"pageToken=stored_token",
+		);
+	});
+
+	test("passes shared drive parameters when a drive is selected", async () => {
+		await mockEnv.drive_kv.put("drive_id", "shared_drive");
+		const fetchMock = mockFetch((_url: string) =>
+			Promise.resolve(jsonResponse({ newStartPageToken: "next" })),
+		);
+
+		await fetchAndLogChanges(mockEnv, "token", folders, "start");
+
+		const url = new URL(fetchMock.mock.calls[0]?.[0] ?? "");
+		expect(url.searchParams.get("driveId")).toBe("shared_drive");
+		expect(url.searchParams.get("supportsAllDrives")).toBe("true");
+		expect(url.searchParams.get("includeItemsFromAllDrives")).toBe("true");
+	});
+});
+
+describe("classifyChange", () => {
+	const file = {
+		id: "file123",
+		name: "report.pdf",
+		parents: ["folder"],
+		createdTime: "2026-01-01T10:00:00.000Z",
+		modifiedTime: "2026-01-01T10:00:00.000Z",
+	};
+
+	test("should classify a fresh upload as created", () => {
+		expect(classifyChange({ file })).toBe("created");
+	});
+
+	test("should classify a later edit without history as modified", () => {
+		expect(
+			classifyChange({
+				file: { ...file, modifiedTime: "2026-01-02T10:00:00.000Z" },
+			}),
+		).toBe("modified");
+	});
+
+	test("should use the previous state to detect renames and moves", () => {
+		const previous = { name: "report.pdf", parents: ["folder"] };
+
+		expect(classifyChange({ file }, previous)).toBe("modified");
+		expect(classifyChange({ file: { ...file, name: "final.pdf" } }, previous)).toBe(
+			"renamed",
+		);
+		expect(classifyChange({ file: { ...file, parents: ["other"] } }, previous)).toBe(
+			"moved",
+		);
+	});
+
+	test("should classify trashed and removed files", () => {
+		expect(classifyChange({ file: { ...file, trashed: true } })).toBe("trashed");
+		expect(classifyChange({ fileId: "file123", removed: true })).toBe("removed");
+	});
+});
+
+describe("fetchAndLogChanges classification", () => {
+	const folders: WatchedFolder[] = [{ id: "folder", createdAt: 0 }];
+	let mockEnv: AppBindings;
+
+	const runWith = async (changes: unknown[]) => {
+		mockFetch(() =>
+			Promise.resolve(jsonResponse({ newStartPageToken: "next", changes })),
+		);
+
+		const result = await fetchAndLogChanges(
+			mockEnv,
+			"access_token",
+			folders,
+			"token",
+		);
+		if (typeof result === "string") throw new Error(result);
+		return result.changes;
+	};
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+	});
+
+	test("should track a file through rename, move out and removal", async () => {
+		const file = {
+			id: "file123",
+			name: "a.pdf",
+			parents: ["folder"],
+			createdTime: "2026-01-01T10:00:00.000Z",
+			modifiedTime: "2026-01-01T10:00:00.000Z",
+		};
+
+		const [created] = await runWith([{ fileId: file.id, file }]);
+		expect(created?.type).toBe("created");
+
+		const [renamed] = await runWith([
+			{ fileId: file.id, file: { ...file, name: "b.pdf" } },
+		]);
+		expect(renamed?.type).toBe("renamed");
+
+		const [moved] = await runWith([
+			{ fileId: file.id, file: { ...file, name: "b.pdf", parents: ["elsewhere"] } },
+		]);
+		expect(moved?.type).toBe("moved");
+		expect(moved?.folders).toEqual(["folder"]);
+
+		// Once moved out, the file is no longer tracked
+		const [untracked] = await runWith([{ fileId: file.id, removed: true }]);
+		expect(untracked?.type).toBeUndefined();
+	});
+
+	test("should report removals of tracked files", async () => {
+		await runWith([
+			{ fileId: "file123", file: { id: "file123", name: "a.pdf", parents: ["folder"] } },
+		]);
+
+		const [removed] = await runWith([{ fileId: "file123", removed: true }]);
+
+		expect(removed?.type).toBe("removed");
+		expect(removed?.folders).toEqual(["folder"]);
+	});
+});
+
+describe("fetchAndLogChanges in subfolders", () => {
+	let mockEnv: AppBindings;
+
+	// folder ← sub ← deep; every other request is a changes.list page
+	const runWith = async (folders: WatchedFolder[], parents: string[]) => {
+		const tree: Record<string, unknown> = {
+			sub: { name: "Sub", parents: ["folder"] },
+			deep: { name: "Deep", parents: ["sub"] },
+		};
+
+		mockFetch((url: string) => {
+			const id = new URL(url).pathname.split("/").pop() ?? "";
+			if (id in tree) return Promise.resolve(jsonResponse(tree[id]));
+
+			return Promise.resolve(
+				jsonResponse({
+					newStartPageToken: "next",
+					changes: [{ fileId: "f", file: { id: "f", name: "f.pdf", parents } }],
+				}),
+			);
+		});
+
+		const result = await fetchAndLogChanges(
+			mockEnv,
+			"access_token",
+			folders,
+			"token",
+		);
+		if (typeof result === "string") throw new Error(result);
+		return result.changes[0];
+	};
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+	});
+
+	test("should match descendants of recursive folders only", async () => {
+		const plain = await runWith([{ id: "folder", createdAt: 0 }], ["deep"]);
+		expect(plain?.folders).toBeUndefined();
+
+		const recursive = await runWith(
+			[{ id: "folder", recursive: true, createdAt: 0 }],
+			["deep"],
+		);
+		expect(recursive?.folders).toEqual(["folder"]);
+	});
+
+	test("should respect the depth limit", async () => {
+		const folders = [
+			{ id: "folder", recursive: true, maxDepth: 2, createdAt: 0 },
+		];
+
+		expect((await runWith(folders, ["sub"]))?.folders).toEqual(["folder"]);
+
+		// Fresh storage, so "f" has no recorded location inside the folder
+		mockEnv = createMockEnv();
+		expect((await runWith(folders, ["deep"]))?.folders).toBeUndefined();
+	});
+
+	test("should climb the parent chain once per change", async () => {
+		const get = spyOn(mockEnv.drive_kv, "get");
+
+		await runWith([{ id: "folder", recursive: true, createdAt: 0 }], ["deep"]);
+
+		const climbed = get.mock.calls
+			.map(([key]) => String(key))
+			.filter((key) => key.startsWith("folder_node:"));
+		expect(climbed).toEqual([...new Set(climbed)]);
+		expect(climbed).toContain("folder_node:deep");
+	});
+});
+
+describe("credential storage", () => {
+	let mockEnv: AppBindings;
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+	});
+
+	test("getOrUpdateKV seals credentials and leaves other keys readable", async () => {
+		await getOrUpdateKV(mockEnv, "account:team_b:refreshToken", "refresh");
+		await getOrUpdateKV(mockEnv, "client_id", "client");
+
+		expect(
+			await mockEnv.drive_kv.get("account:team_b:refreshToken"),
+		).toStartWith("enc:v1:");
+		expect(await getOrUpdateKV(mockEnv, "account:team_b:refreshToken")).toBe(
+			"refresh",
+		);
+		expect(await mockEnv.drive_kv.get("client_id")).toBe("client");
+	});
+
+	test("getValidAccessToken stores the refreshed token sealed", async () => {
+		await getOrUpdateKV(mockEnv, "refreshToken", "refresh");
+		await getOrUpdateKV(mockEnv, "client_secret", "secret");
+		await mockEnv.drive_kv.put("client_id", "client");
+
+		const fetchMock = mockFetch(() =>
+			Promise.resolve(
+				jsonResponse({ access_token: "fresh_access", expires_in: 3600 }),
+			),
+		);
+
+		expect(await getValidAccessToken(mockEnv)).toBe("fresh_access");
+		expect(await mockEnv.drive_kv.get("accessToken")).toStartWith("enc:v1:");
+		expect(await getValidAccessToken(mockEnv)).toBe("fresh_access");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("refused refresh tokens", () => {
+	let mockEnv: AppBindings;
+
+	beforeEach(async () => {
+		mockEnv = createMockEnv();
+		await getOrUpdateKV(mockEnv, "refreshToken", "revoked");
+		await getOrUpdateKV(mockEnv, "client_secret", "secret");
+		await mockEnv.drive_kv.put("client_id", "client");
+	});
+
+	test("invalid_grant marks the account and stops further refreshes", async () => {
+		const fetchMock = mockFetch(() =>
+			Promise.resolve(
+				jsonResponse(
+					{
+						error: "invalid_grant",
+						error_description: "Token has been expired or revoked.",
+					},
+					400,
+				),
+			),
+		);
+
+		const error = await getValidAccessToken(mockEnv).catch((e) => e);
+
+		expect(error).toBeInstanceOf(OAuthError);
+		expect(error.code).toBe("invalid_grant");
+		expect(error.reauthRequired).toBe(true);
+		expect(await getReauthState(mockEnv)).toMatchObject({
+			error: "invalid_grant",
+			description: "Token has been expired or revoked.",
+		});
+		expect(await mockEnv.drive_kv.get("accessTokenRefreshLock")).toBeNull();
+
+		await expect(getValidAccessToken(mockEnv)).rejects.toBeInstanceOf(
+			OAuthError,
+		);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	test("other token endpoint errors are typed but not sticky", async () => {
+		mockFetch(() =>
+			Promise.resolve(new Response("upstream unavailable", { status: 503 })),
+		);
+
+		const error = await getValidAccessToken(mockEnv).catch((e) => e);
+
+		expect(error).toBeInstanceOf(OAuthError);
+		expect(error.status).toBe(503);
+		expect(error.reauthRequired).toBe(false);
+		expect(await getReauthState(mockEnv)).toBeNull();
+	});
+});
+
+describe("renewFileWatchesIfNeeded", () => {
+	let mockEnv: AppBindings;
+
+	const fileWatch = (fileId: string, expiresInMs: number) => ({
+		fileId,
+		channelId: `${fileId}_channel`,
+		resourceId: `${fileId}_resource`,
+		webhookToken: "token",
+		webhookUrl: "https://example.com/drive/webhook",
+		expiration: Date.now() + expiresInMs,
+		createdAt: 0,
+	});
+
+	beforeEach(async () => {
+		mockEnv = createMockEnv();
+		await getOrUpdateKV(mockEnv, "accessToken", "access");
+		await mockEnv.drive_kv.put(
+			"accessTokenExpiry",
+			(Date.now() + 3600000).toString(),
+		);
+	});
+
+	test("replaces only the channels close to expiry", async () => {
+		await mockEnv.drive_kv.put(
+			"file_watches",
+			JSON.stringify([
+				fileWatch("expiring", 60_000),
+				fileWatch("fresh", 12 * 3600000),
+			]),
+		);
+		await mockEnv.drive_kv.put("channel_message:expiring_channel", "3");
+		const fetchMock = mockFetch((_url: string) =>
+			Promise.resolve(jsonResponse({ resourceId: "renewed_resource" })),
+		);
+
+		await renewFileWatchesIfNeeded(mockEnv);
+
+		const urls = fetchMock.mock.calls.map(([url]) => url);
+		expect(urls[0]).toStartWith(
+			"https://www.googleapis.com/drive/v3/files/expiring/watch",
+		);
+		expect(urls[1]).toBe("https://www.googleapis.com/drive/v3/channels/stop");
+		expect(urls).toHaveLength(2);
+
+		const watches = JSON.parse((await mockEnv.drive_kv.get("file_watches"))!);
+		const renewed = watches.find(
+			(watch: { fileId: string }) => watch.fileId === "expiring",
+		);
+		expect(renewed.channelId).not.toBe("expiring_channel");
+		expect(renewed.resourceId).toBe("renewed_resource");
+		expect(await mockEnv.drive_kv.get("channel:expiring_channel")).toBeNull();
+		expect(
+			await mockEnv.drive_kv.get("channel_message:expiring_channel"),
+		).toBeNull();
+	});
+});
@@ -1,25 +1,72 @@
-import { google } from "googleapis";
+import { timingSafeEqual } from "hono/utils/buffer";
+import {
+	accountKey,
+	DEFAULT_ACCOUNT_ID,
+	linkChannel,
+	resolveChannel,
+	unlinkChannel,
+} from "./accounts";
+import {
+	type FolderAncestry,
+	resolveAncestry,
+	syncFolderNode,
+} from "./ancestry";
+import { getSecret, isSecretKey, putSecret } from "./crypto";
+import {
+	buildAuthUrl,
+	type ChangeEventType,
+	type DriveChange,
+	exchangeAuthCode,
+	listChanges,
+	refreshAccessToken,
+	stopChannel,
+	watchChanges,
+	watchFile,
+} from "./drive";
+import { listFileWatches, putFileWatch, removeFileWatch } from "./fileWatches";
+import { isInsideFolder, matchFolders, resolveDestinations } from "./folders";
+import { recordChanges } from "./history";
+import { mirrorChange } from "./mirror";
+import {
+	getReauthState,
+	markReauthRequired,
+	OAuthError,
+	reauthError,
+} from "./reauth";
+import { evaluateRules, listRules, runRuleActions } from "./rules";
+import {
+	DEFAULT_SCOPE_PROFILE,
+	SCOPE_PROFILES,
+	type ScopeProfile,
+} from "./scopes";
+import { deliverToSubscribers } from "./subscriptions";
 import type {
 	AppBindings,
+	FileWatch,
 	OAuthSecrets,
 	OAuthToken,
-	WatchChannel,
+	WatchedFolder,
 } from "./types";
-import { logger } from "./utils";
+import { logger, sleep } from "./utils";
 
 /* -------------------------------------------------------------------------- */
 /*                               Small Utilities                              */
 /* -------------------------------------------------------------------------- */
 
-function sleep(ms: number) {
-	return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 export async function getOrUpdateKV(
 	kv: AppBindings,
 	key: string,
 	value?: string | null,
 ): Promise<string | null> {
+	// Credentials are sealed at rest; everything else is stored as-is
+	if (isSecretKey(key)) {
+		if (value) {
+			await putSecret(kv, key, value);
+			return value;
+		}
+		return await getSecret(kv, key);
+	}
+
 	if (value) {
 		await kv.drive_kv.put(key, value);
 		return value;
@@ -33,64 +80,173 @@ export async function getOrUpdateKV(
 
 type OAuthOptions = OAuthSecrets["web"];
 
-function _getOAuth2Client(options?: OAuthOptions) {
-	return new google.auth.OAuth2({
-		client_id: options?.client_id,
-		client_secret: options?.client_secret,
-		redirect_uris: options?.redirect_uris,
-		forceRefreshOnFailure: true,
+/** Signed `state` and PKCE challenge of a pending authorization */
+export interface AuthorizationParams {
+	state: string;
+	codeChallenge: string;
+}
+
+export function generateAuthUrl(
+	options?: OAuthOptions,
+	request: { profile?: ScopeProfile; authorization?: AuthorizationParams } = {},
+): string {
+	const { profile = DEFAULT_SCOPE_PROFILE, authorization } = request;
+
+	return buildAuthUrl({
+		clientId: options?.client_id,
+		redirectUri: options?.redirect_uris[0],
+		scopes: SCOPE_PROFILES[profile],
+		...authorization,
 	});
 }
 
-export function generateAuthUrl(options?: OAuthOptions): string {
-	const oauth2Client = _getOAuth2Client(options);
+/* -------------------------------------------------------------------------- */
+/*                                Shared Drives                               */
+/* -------------------------------------------------------------------------- */
+
+const DRIVE_ID_KEY = "drive_id";
 
-	return oauth2Client.generateAuthUrl({
-		access_type: "offline", // required for refresh token
-		prompt: "consent", // forces refresh token
-		scope: ["https://www.googleapis.com/auth/drive"],
-	});
+/** Shared drive watched by the account; `null` means My Drive */
+export async function getDriveId(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<string | null> {
+	return env.drive_kv.get(accountKey(accountId, DRIVE_ID_KEY));
 }
 
-export async function watchChannel(options: WatchChannel) {
-	const res = await fetch(
-		`https://www.googleapis.com/drive/v3/changes/watch?pageToken=${options.startPageToken}`,
-		{
-			method: "POST",
-			headers: {
-				Authorization: `Bearer ${options.accessToken}`,
-				"Content-Type": "application/json",
-			},
-			body: JSON.stringify({
-				id: options.channelId,
-				type: "web_hook",
-				address: options.webhookUrl,
-				expiration: options?.expiration,
-				token: options.webhookToken,
-			}),
-		},
-	);
-	return res;
+export async function setDriveId(
+	env: AppBindings,
+	accountId: string,
+	driveId?: string | null,
+) {
+	const key = accountKey(accountId, DRIVE_ID_KEY);
+	await (driveId ? env.drive_kv.put(key, driveId) : env.drive_kv.delete(key));
 }
 
 /* -------------------------------------------------------------------------- */
-/*                         OAuth Token Exchange & Refresh                     */
+/*                           Watch Channel Lifecycle                          */
 /* -------------------------------------------------------------------------- */
 
 const RENEW_THRESHOLD_MS = 60 * 60 * 1000; // 1 hour before expiry
+const CHANNEL_TTL_MS = 24 * 60 * 60 * 1000;
+
+const CHANNEL_METADATA_KEYS = [
+	"driveChannelId",
+	"driveResourceId",
+	"driveChannelExpiration",
+	"driveWebhookToken",
+] as const;
+
+/** Stored state of an account's Drive watch channel */
+export interface DriveWatchStatus {
+	channelId: string;
+	resourceId: string | null;
+	/** Shared drive being watched; `null` for My Drive */
+	driveId: string | null;
+	expiration: number;
+	/** Milliseconds until expiry; negative once expired */
+	remainingMs: number;
+}
 
-export async function renewDriveWatchIfNeeded(env: AppBindings) {
-	const expirationStr = await env.drive_kv.get("driveChannelExpiration");
-	if (!expirationStr) return;
+export type DriveWatchResult =
+	| { ok: true; status: DriveWatchStatus }
+	| {
+			ok: false;
+			reason: "no_channel" | "missing_metadata" | "google_error";
+			error?: string;
+	  };
 
-	const expiration = Number(expirationStr);
-	const now = Date.now();
+/** Record a newly created channel as the account's current Drive watch */
+export async function saveDriveWatch(
+	env: AppBindings,
+	accountId: string,
+	channel: Omit<DriveWatchStatus, "remainingMs"> & { webhookToken: string },
+) {
+	await Promise.all([
+		setDriveId(env, accountId, channel.driveId),
+		env.drive_kv.put(
+			accountKey(accountId, "driveChannelId"),
+			channel.channelId,
+		),
+		env.drive_kv.put(
+			accountKey(accountId, "driveResourceId"),
+			channel.resourceId ?? "",
+		),
+		env.drive_kv.put(
+			accountKey(accountId, "driveChannelExpiration"),
+			channel.expiration.toString(),
+		),
+		env.drive_kv.put(
+			accountKey(accountId, "driveWebhookToken"),
+			channel.webhookToken,
+		),
+		linkChannel(env, channel.channelId, accountId),
+	]);
+}
 
-	if (expiration - now > RENEW_THRESHOLD_MS) {
-		return; // still valid
+export async function getDriveWatch(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<DriveWatchStatus | null> {
+	const [channelId, resourceId, expiration, driveId] = await Promise.all([
+		env.drive_kv.get(accountKey(accountId, "driveChannelId")),
+		env.drive_kv.get(accountKey(accountId, "driveResourceId")),
+		env.drive_kv.get(accountKey(accountId, "driveChannelExpiration")),
+		getDriveId(env, accountId),
+	]);
+	if (!channelId) return null;
+
+	return {
+		channelId,
+		resourceId,
+		driveId,
+		expiration: Number(expiration ?? 0),
+		remainingMs: Number(expiration ?? 0) - Date.now(),
+	};
+}
+
+/**
+ * Stop the channel at Google and forget it. A channel Google no longer knows
+ * (404) is treated as already stopped.
+ */
+export async function stopDriveWatch(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<DriveWatchResult> {
+	const current = await getDriveWatch(env, accountId);
+	if (!current) return { ok: false, reason: "no_channel" };
+
+	if (current.resourceId) {
+		const res = await stopChannel({
+			accessToken: await getValidAccessToken(env, accountId),
+			channelId: current.channelId,
+			resourceId: current.resourceId,
+		});
+
+		if (!res.ok && res.status !== 404) {
+			logger.error(`🚨 Failed to stop Drive watch: ${res.error}`);
+			return { ok: false, reason: "google_error", error: res.error };
+		}
 	}
 
-	logger.log("♻️ Renewing Google Drive watch channel");
+	await Promise.all([
+		unlinkChannel(env, current.channelId),
+		env.drive_kv.delete(`channel_message:${current.channelId}`),
+		...CHANNEL_METADATA_KEYS.map((key) =>
+			env.drive_kv.delete(accountKey(accountId, key)),
+		),
+	]);
+
+	logger.info(`🛑 Drive watch stopped: ${current.channelId} (${accountId})`);
+	return { ok: true, status: current };
+}
+
+/** Replace the account's channel with a fresh one, regardless of expiry */
+export async function renewDriveWatch(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<DriveWatchResult> {
+	logger.log(`♻️ Renewing Google Drive watch channel (${accountId})`);
 
 	const [
 		channelId,
@@ -98,101 +254,243 @@ export async function renewDriveWatchIfNeeded(env: AppBindings) {
 		startPageToken,
 		webhookUrl,
 		webhookToken,
+		driveId,
 		accessToken,
 	] = await Promise.all([
-		env.drive_kv.get("driveChannelId"),
-		env.drive_kv.get("driveResourceId"),
-		env.drive_kv.get("drive_start_page_token"),
-		env.drive_kv.get("worker_drive_webhook_url"),
-		env.drive_kv.get("driveWebhookToken"),
-		getValidAccessToken(env),
+		env.drive_kv.get(accountKey(accountId, "driveChannelId")),
+		env.drive_kv.get(accountKey(accountId, "driveResourceId")),
+		env.drive_kv.get(accountKey(accountId, "drive_start_page_token")),
+		env.drive_kv.get(accountKey(accountId, "worker_drive_webhook_url")),
+		env.drive_kv.get(accountKey(accountId, "driveWebhookToken")),
+		getDriveId(env, accountId),
+		getValidAccessToken(env, accountId),
 	]);
 
+	if (!channelId) {
+		return { ok: false, reason: "no_channel" };
+	}
+
 	if (
-		!channelId ||
 		!resourceId ||
 		!startPageToken ||
 		!webhookUrl ||
+		!webhookToken ||
 		!accessToken
 	) {
 		logger.error("🚨 Missing Drive watch metadata, cannot renew");
-		return;
+		return { ok: false, reason: "missing_metadata" };
 	}
 
 	// 1️⃣ Stop old channel
-	await fetch("https://www.googleapis.com/drive/v3/channels/stop", {
-		method: "POST",
-		headers: {
-			Authorization: `Bearer ${accessToken}`,
-			"Content-Type": "application/json",
-		},
-		body: JSON.stringify({
-			id: channelId,
-			resourceId,
-		}),
-	});
-
-	if (!webhookToken) {
-		throw Error("Missing webhook token");
-	}
-
-	if (!webhookUrl) {
-		throw Error("Missing Webhook URL");
-	}
+	await stopChannel({ accessToken, channelId, resourceId });
 
 	// 2️⃣ Create new channel
 	const newChannelId = crypto.randomUUID();
-	const expirationMs = Date.now() + 24 * 60 * 60 * 1000;
+	const expirationMs = Date.now() + CHANNEL_TTL_MS;
 
-	const res = await watchChannel({
+	const res = await watchChanges({
 		accessToken,
 		channelId: newChannelId,
 		expiration: expirationMs,
 		startPageToken,
 		webhookToken,
 		webhookUrl,
+		driveId,
 	});
 
 	if (!res.ok) {
-		const error = await res.text();
-		logger.error(`🚨 Failed to renew Drive watch: ${error}`);
-		return;
-	} else {
-		logger.success(`Watched channel: ${channelId}`);
+		logger.error(`🚨 Failed to renew Drive watch: ${res.error}`);
+		return { ok: false, reason: "google_error", error: res.error };
 	}
 
-	console.log(">>>> 5");
+	logger.success(`Watched channel: ${newChannelId}`);
 
-	const data = await res.json();
+	const data = res.data;
 
 	await Promise.all([
-		env.drive_kv.put("driveChannelId", newChannelId),
-		env.drive_kv.put("driveResourceId", data.resourceId),
-		env.drive_kv.put("driveChannelExpiration", expirationMs.toString()),
+		linkChannel(env, newChannelId, accountId),
+		unlinkChannel(env, channelId),
+		env.drive_kv.delete(`channel_message:${channelId}`),
+		env.drive_kv.put(accountKey(accountId, "driveChannelId"), newChannelId),
+		env.drive_kv.put(accountKey(accountId, "driveResourceId"), data.resourceId),
+		env.drive_kv.put(
+			accountKey(accountId, "driveChannelExpiration"),
+			expirationMs.toString(),
+		),
 	]);
 
 	logger.info("✅ Drive watch renewed successfully");
+
+	return {
+		ok: true,
+		status: {
+			channelId: newChannelId,
+			resourceId: data.resourceId,
+			driveId,
+			expiration: expirationMs,
+			remainingMs: expirationMs - Date.now(),
+		},
+	};
+}
+
+export async function renewDriveWatchIfNeeded(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+) {
+	const current = await getDriveWatch(env, accountId);
+	if (!current || current.remainingMs > RENEW_THRESHOLD_MS) {
+		return; // nothing to renew or still valid
+	}
+
+	await renewDriveWatch(env, accountId);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Single-File Watches                           */
+/* -------------------------------------------------------------------------- */
+
+export type FileWatchResult =
+	| { ok: true; watch: FileWatch }
+	| {
+			ok: false;
+			reason: "no_channel" | "missing_metadata" | "google_error";
+			error?: string;
+	  };
+
+/** Open a `files.watch` channel on one file, replacing any existing one */
+export async function createFileWatch(
+	env: AppBindings,
+	accountId: string,
+	fileId: string,
+	options: { webhookUrl?: string | null; accessToken?: string } = {},
+): Promise<FileWatchResult> {
+	const webhookUrl =
+		options.webhookUrl ??
+		(await env.drive_kv.get(accountKey(accountId, "worker_drive_webhook_url")));
+	if (!webhookUrl) {
+		return { ok: false, reason: "missing_metadata" };
+	}
+
+	const accessToken =
+		options.accessToken || (await getValidAccessToken(env, accountId));
+	const watch: FileWatch = {
+		fileId,
+		channelId: crypto.randomUUID(),
+		resourceId: "",
+		webhookToken: crypto.randomUUID(),
+		webhookUrl,
+		expiration: Date.now() + CHANNEL_TTL_MS,
+		createdAt: Date.now(),
+	};
+
+	const res = await watchFile({ ...watch, accessToken });
+	if (!res.ok) {
+		logger.error(`🚨 Failed to watch file ${fileId}: ${res.error}`);
+		return { ok: false, reason: "google_error", error: res.error };
+	}
+
+	watch.resourceId = res.data.resourceId;
+
+	// Retire the channel this one replaces
+	const previous = (await listFileWatches(env, accountId)).find(
+		(existing) => existing.fileId === fileId,
+	);
+	if (previous) {
+		await stopChannel({ accessToken, ...previous });
+		await Promise.all([
+			unlinkChannel(env, previous.channelId),
+			env.drive_kv.delete(`channel_message:${previous.channelId}`),
+		]);
+	}
+
+	await Promise.all([
+		putFileWatch(env, watch, accountId),
+		linkChannel(env, watch.channelId, accountId, { kind: "file", fileId }),
+	]);
+
+	logger.success(`👁️ Watching file ${fileId} (${accountId})`);
+	return { ok: true, watch };
+}
+
+export async function stopFileWatch(
+	env: AppBindings,
+	accountId: string,
+	fileId: string,
+): Promise<FileWatchResult> {
+	const watch = (await listFileWatches(env, accountId)).find(
+		(existing) => existing.fileId === fileId,
+	);
+	if (!watch) return { ok: false, reason: "no_channel" };
+
+	const res = await stopChannel({
+		accessToken: await getValidAccessToken(env, accountId),
+		...watch,
+	});
+
+	if (!res.ok && res.status !== 404) {
+		logger.error(`🚨 Failed to stop file watch: ${res.error}`);
+		return { ok: false, reason: "google_error", error: res.error };
+	}
+
+	await Promise.all([
+		removeFileWatch(env, fileId, accountId),
+		unlinkChannel(env, watch.channelId),
+		env.drive_kv.delete(`channel_message:${watch.channelId}`),
+	]);
+
+	logger.info(`🛑 File watch stopped: ${fileId} (${accountId})`);
+	return { ok: true, watch };
+}
+
+export async function renewFileWatchesIfNeeded(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+) {
+	const expiring = (await listFileWatches(env, accountId)).filter(
+		(watch) => watch.expiration - Date.now() <= RENEW_THRESHOLD_MS,
+	);
+
+	for (const watch of expiring) {
+		logger.log(`♻️ Renewing file watch ${watch.fileId} (${accountId})`);
+		await createFileWatch(env, accountId, watch.fileId, {
+			webhookUrl: watch.webhookUrl,
+		});
+	}
 }
 
+/* -------------------------------------------------------------------------- */
+/*                         OAuth Token Exchange & Refresh                     */
+/* -------------------------------------------------------------------------- */
+
+/** `codeVerifier` is required when the consent URL carried a PKCE challenge */
 export async function getAccessTokens(
 	options: OAuthOptions,
 	authCode: string,
+	codeVerifier?: string,
 ): Promise<OAuthToken> {
 	if (!authCode) {
 		throw new Error("🚨 No authorization code provided");
 	}
 
-	const oauth2Client = _getOAuth2Client(options);
-	const { tokens } = await oauth2Client.getToken(authCode);
-	oauth2Client.setCredentials(tokens);
-
-	return tokens;
+	return exchangeAuthCode({
+		clientId: options.client_id,
+		clientSecret: options.client_secret,
+		redirectUri: options.redirect_uris?.[0],
+		code: authCode,
+		codeVerifier,
+	});
 }
 
-async function refreshAccessToken(env: AppBindings) {
-	const refreshToken = await env.drive_kv.get("refreshToken");
-	const clientId = await env.drive_kv.get("client_id");
-	const clientSecret = await env.drive_kv.get("client_secret");
+async function refreshStoredToken(env: AppBindings, accountId: string) {
+	const refreshToken = await getSecret(
+		env,
+		accountKey(accountId, "refreshToken"),
+	);
+	const clientId = await env.drive_kv.get(accountKey(accountId, "client_id"));
+	const clientSecret = await getSecret(
+		env,
+		accountKey(accountId, "client_secret"),
+	);
 
 	if (!refreshToken) {
 		throw new Error("🚨 No refresh token available");
@@ -206,25 +504,7 @@ async function refreshAccessToken(env: AppBindings) {
 		throw new Error("🚨 No client secret available");
 	}
 
-	const response = await fetch("https://oauth2.googleapis.com/token", {
-		method: "POST",
-		headers: { "Content-Type": "application/x-www-form-urlencoded" },
-		body: new URLSearchParams({
-			client_id: clientId,
-			client_secret: clientSecret,
-			refresh_token: refreshToken,
-			grant_type: "refresh_token",
-		}),
-	});
-
-	if (!response.ok) {
-		throw new Error("🚨 Failed to refresh access token");
-	}
-
-	return response.json() as Promise<{
-		access_token: string;
-		expires_in: number;
-	}>;
+	return refreshAccessToken({ clientId, clientSecret, refreshToken });
 }
 
 /* -------------------------------------------------------------------------- */
@@ -235,45 +515,67 @@ const LOCK_KEY = "accessTokenRefreshLock";
 const LOCK_TTL_MS = 60_000;
 const EARLY_REFRESH_MS = 60_000;
 
-export async function getValidAccessToken(env: AppBindings): Promise<string> {
-	const token = await env.drive_kv.get("accessToken");
-	const expiry = Number((await env.drive_kv.get("accessTokenExpiry")) ?? 0);
+export async function getValidAccessToken(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<string> {
+	const lockKey = accountKey(accountId, LOCK_KEY);
+	const token = await getSecret(env, accountKey(accountId, "accessToken"));
+	const expiry = Number(
+		(await env.drive_kv.get(accountKey(accountId, "accessTokenExpiry"))) ?? 0,
+	);
 
 	// Token still valid
 	if (token && Date.now() < expiry - EARLY_REFRESH_MS) {
 		return token;
 	}
 
+	// A revoked grant stays revoked; asking Google again only adds noise
+	const reauth = await getReauthState(env, accountId);
+	if (reauth) throw reauthError(reauth);
+
 	const now = Date.now();
-	const lockTimestamp = await env.drive_kv.get(LOCK_KEY);
+	const lockTimestamp = await env.drive_kv.get(lockKey);
 
 	// Another request is already refreshing
 	if (lockTimestamp && now - Number(lockTimestamp) < LOCK_TTL_MS) {
 		logger.log("⏳ Token refresh in progress, waiting...");
 		await sleep(500);
-		return getValidAccessToken(env);
+		return getValidAccessToken(env, accountId);
 	}
 
 	// Acquire refresh lock
-	await env.drive_kv.put(LOCK_KEY, now.toString(), {
+	await env.drive_kv.put(lockKey, now.toString(), {
 		expirationTtl: LOCK_TTL_MS / 1000,
 	});
 
 	try {
 		logger.log("🔄 Refreshing access token...");
 
-		const refreshed = await refreshAccessToken(env);
+		const refreshed = await refreshStoredToken(env, accountId);
 
-		await env.drive_kv.put("accessToken", refreshed.access_token);
+		await putSecret(
+			env,
+			accountKey(accountId, "accessToken"),
+			refreshed.access_token,
+		);
 		await env.drive_kv.put(
-			"accessTokenExpiry",
+			accountKey(accountId, "accessTokenExpiry"),
 			(Date.now() + refreshed.expires_in * 1000).toString(),
 		);
 
 		logger.log("✅ Access token refreshed");
 		return refreshed.access_token;
+	} catch (error: unknown) {
+		if (error instanceof OAuthError && error.reauthRequired) {
+			logger.warn(
+				`⚠️ Refresh token refused, re-authorization required (${accountId})`,
+			);
+			await markReauthRequired(env, accountId, error);
+		}
+		throw error;
 	} finally {
-		await env.drive_kv.delete(LOCK_KEY);
+		await env.drive_kv.delete(lockKey);
 	}
 }
 
@@ -281,76 +583,410 @@ export async function getValidAccessToken(env: AppBindings): Promise<string> {
 /*                        Google Drive Webhook Validation                     */
 /* -------------------------------------------------------------------------- */
 
-export async function validateDriveWebhook(
-	expectedToken?: string | null,
-	receivedToken?: string,
+/** `X-Goog-*` headers of an incoming push notification */
+export interface DriveNotification {
+	channelId?: string;
+	channelToken?: string;
+	resourceId?: string;
+	resourceState?: string;
+	messageNumber?: string;
+}
+
+export type WebhookRejectionReason =
+	| "missing_headers"
+	| "unknown_channel"
+	| "invalid_token"
+	| "resource_mismatch"
+	| "channel_expired"
+	| "replayed_message";
+
+export type WebhookVerification =
+	| {
+			ok: true;
+			accountId: string;
+			channelId: string;
+			messageNumber: number;
+			/** Set when the channel watches a single file */
+			fileId?: string;
+	  }
+	| { ok: false; reason: WebhookRejectionReason };
+
+// Message numbers outlive the 24h channel by a safe margin
+const MESSAGE_NUMBER_TTL_S = 7 * 24 * 60 * 60;
+
+type ChannelCheck =
+	| Extract<WebhookVerification, { ok: true }>
+	| { ok: false; reason: WebhookRejectionReason; detail: string };
+
+function rejectWebhook(
+	reason: WebhookRejectionReason,
+	detail: string,
+): WebhookVerification {
+	logger.error(`🚨 Drive webhook rejected (${reason}): ${detail}`);
+	return { ok: false, reason };
+}
+
+const reject = (reason: WebhookRejectionReason, detail: string) =>
+	({ ok: false, reason, detail }) as const;
+
+// Everything but the replay check, which has to record the message number
+async function checkChannel(
+	env: AppBindings,
+	notification: DriveNotification,
+): Promise<ChannelCheck> {
+	const { channelId, channelToken, resourceId } = notification;
+	const messageNumber = Number(notification.messageNumber);
+
+	if (
+		!channelId ||
+		!channelToken ||
+		!resourceId ||
+		!notification.messageNumber ||
+		!Number.isInteger(messageNumber)
+	) {
+		return reject("missing_headers", "incomplete X-Goog-* headers");
+	}
+
+	const channel = await resolveChannel(env, channelId);
+	const { accountId } = channel;
+
+	const [expectedChannelId, expectedToken, expectedResourceId, expiration] =
+		channel.kind === "file"
+			? await fileChannelMetadata(env, accountId, channel.fileId)
+			: await Promise.all([
+					env.drive_kv.get(accountKey(accountId, "driveChannelId")),
+					env.drive_kv.get(accountKey(accountId, "driveWebhookToken")),
+					env.drive_kv.get(accountKey(accountId, "driveResourceId")),
+					env.drive_kv.get(accountKey(accountId, "driveChannelExpiration")),
+				]);
+
+	if (!expectedChannelId || channelId !== expectedChannelId) {
+		return reject("unknown_channel", channelId);
+	}
+
+	if (!expectedToken || !(await timingSafeEqual(channelToken, expectedToken))) {
+		return reject("invalid_token", channelId);
+	}
+
+	if (resourceId !== expectedResourceId) {
+		return reject("resource_mismatch", resourceId);
+	}
+
+	if (expiration && Number(expiration) < Date.now()) {
+		return reject("channel_expired", channelId);
+	}
+
+	return {
+		ok: true,
+		accountId,
+		channelId,
+		messageNumber,
+		fileId: channel.kind === "file" ? channel.fileId : undefined,
+	};
+}
+
+/**
+ * Whether the headers name a live channel with its token and resource. Unlike
+ * `validateDriveWebhook` it neither logs nor consumes the message number.
+ */
+export async function isVerifiedNotification(
+	env: AppBindings,
+	notification: DriveNotification,
 ): Promise<boolean> {
-	if (!receivedToken || receivedToken !== expectedToken) {
-		logger.error("🚨 Invalid webhook token");
-		return false;
+	return (await checkChannel(env, notification)).ok;
+}
+
+export async function validateDriveWebhook(
+	env: AppBindings,
+	notification: DriveNotification,
+): Promise<WebhookVerification> {
+	const channel = await checkChannel(env, notification);
+	if (!channel.ok) return rejectWebhook(channel.reason, channel.detail);
+
+	const { channelId, messageNumber } = channel;
+
+	// Drop duplicates and replays: message numbers only ever increase
+	const messageKey = `channel_message:${channelId}`;
+	const highest = Number((await env.drive_kv.get(messageKey)) ?? 0);
+
+	if (messageNumber <= highest) {
+		return rejectWebhook(
+			"replayed_message",
+			`message ${messageNumber} <= ${highest} on ${channelId}`,
+		);
 	}
 
-	return true;
+	await env.drive_kv.put(messageKey, messageNumber.toString(), {
+		expirationTtl: MESSAGE_NUMBER_TTL_S,
+	});
+
+	return channel;
+}
+
+// Same shape as the change-feed metadata read in validateDriveWebhook
+async function fileChannelMetadata(
+	env: AppBindings,
+	accountId: string,
+	fileId: string,
+) {
+	const watch = (await listFileWatches(env, accountId)).find(
+		(existing) => existing.fileId === fileId,
+	);
+
+	return [
+		watch?.channelId ?? null,
+		watch?.webhookToken ?? null,
+		watch?.resourceId ?? null,
+		watch?.expiration.toString() ?? null,
+	] as const;
 }
 
 /* -------------------------------------------------------------------------- */
 /*                         Google Drive Change Processing                     */
 /* -------------------------------------------------------------------------- */
 
-interface DriveChange {
-	changes?: Array<{
-		file?: {
-			id: string;
-			name: string;
-			parents?: string[];
-		};
-	}>;
+/** Last known name and location of a file inside a watched folder */
+interface FileState {
+	name: string;
+	mimeType?: string;
+	parents: string[];
+}
+
+export interface DriveChangeResult {
+	/** Every change seen while walking the change feed */
+	changes: DriveChange[];
+	/** Number of `changes.list` pages fetched */
+	pages: number;
+	/** Token to resume from on the next notification */
 	newStartPageToken?: string;
 }
 
+const CHANGE_FIELDS =
+	"nextPageToken,newStartPageToken,changes(changeType,fileId,removed,time,file(id,name,mimeType,parents,trashed,createdTime,modifiedTime,md5Checksum,headRevisionId,version,lastModifyingUser(displayName,emailAddress),owners(displayName,emailAddress),size))";
+
+// Uploads report a createdTime equal to (or later than) modifiedTime
+const CREATED_TOLERANCE_MS = 5_000;
+
+function sameParents(a: string[] = [], b: string[] = []) {
+	return a.length === b.length && a.every((parent) => b.includes(parent));
+}
+
+export function classifyChange(
+	change: DriveChange,
+	previous?: FileState | null,
+): ChangeEventType {
+	const file = change.file;
+
+	if (change.removed || !file) return "removed";
+	if (file.trashed) return "trashed";
+
+	if (previous) {
+		if (!sameParents(previous.parents, file.parents)) return "moved";
+		if (previous.name !== file.name) return "renamed";
+		return "modified";
+	}
+
+	const created = Date.parse(file.createdTime ?? "");
+	const modified = Date.parse(file.modifiedTime ?? "");
+
+	return Number.isNaN(created) ||
+		Number.isNaN(modified) ||
+		modified - created <= CREATED_TOLERANCE_MS
+		? "created"
+		: "modified";
+}
+
+async function getFileState(
+	env: AppBindings,
+	accountId: string,
+	fileId: string,
+): Promise<FileState | null> {
+	const raw = await env.drive_kv.get(
+		accountKey(accountId, `file_state:${fileId}`),
+	);
+	return raw ? (JSON.parse(raw) as FileState) : null;
+}
+
+async function saveFileState(
+	env: AppBindings,
+	accountId: string,
+	fileId: string,
+	state: FileState | null,
+) {
+	const key = accountKey(accountId, `file_state:${fileId}`);
+
+	if (state) {
+		await env.drive_kv.put(key, JSON.stringify(state));
+	} else {
+		await env.drive_kv.delete(key);
+	}
+}
+
 export async function fetchAndLogChanges(
 	env: AppBindings,
 	accessToken: string,
-	googleDriveFolderID: string,
+	watchedFolders: WatchedFolder[],
 	googleDriveStartPageToken?: string,
-): Promise<DriveChange | string> {
-	const startPageToken =
-		googleDriveStartPageToken ??
-		(await env.drive_kv.get("drive_start_page_token"));
-
-	if (!startPageToken) {
+	accountId: string = DEFAULT_ACCOUNT_ID,
+	checkpoint?: (pageToken: string) => Promise<void>,
+): Promise<DriveChangeResult | string> {
+	const pageTokenKey = accountKey(accountId, "drive_start_page_token");
+	const saveCheckpoint =
+		checkpoint ??
+		((pageToken: string) => env.drive_kv.put(pageTokenKey, pageToken));
+	let pageToken =
+		googleDriveStartPageToken ?? (await env.drive_kv.get(pageTokenKey));
+	const driveId = await getDriveId(env, accountId);
+
+	if (!pageToken) {
 		logger.warn("⚠️ Google Drive Start Page Token is missing in KV");
 		return "No startPageToken";
 	}
 
-	const response = await fetch(
-		`https://www.googleapis.com/drive/v3/changes?pageToken=${startPageToken}&fields=changes(file(id,name,parents)),newStartPageToken`,
-		{
-			headers: {
-				Authorization: `Bearer ${accessToken}`,
-			},
-		},
-	);
+	const result: DriveChangeResult = { changes: [], pages: 0 };
+	const rules = await listRules(env, accountId);
 
-	if (!response.ok) {
-		logger.error("🚨 Drive API error", await response.text());
-		return "Drive API error";
-	}
+	// Walk `nextPageToken` until Drive hands out a `newStartPageToken`
+	while (pageToken) {
+		const response = await listChanges(accessToken, {
+			pageToken,
+			fields: CHANGE_FIELDS,
+			driveId,
+		});
 
-	const data = (await response.json()) as DriveChange;
+		if (!response.ok) {
+			logger.error("🚨 Drive API error", response.error);
+			return "Drive API error";
+		}
+
+		const data = response.data;
+		result.pages += 1;
+
+		for (const change of data.changes ?? []) {
+			result.changes.push(change);
+
+			const fileId = change.file?.id ?? change.fileId;
+			if (!fileId || change.changeType === "drive") continue;
+
+			const file = change.file;
+			await syncFolderNode(env, accountId, change);
+			const previous = await getFileState(env, accountId, fileId);
+
+			// Climbed once from the current parents; reused for state and mirroring
+			const ancestry = await resolveAncestry(
+				env,
+				accountId,
+				accessToken,
+				file?.parents ?? [],
+				watchedFolders,
+			);
+
+			// Match on old and new parents so moves out and removals are seen;
+			// only parents the file left still need a climb of their own
+			const departed = (previous?.parents ?? []).filter(
+				(id) => !file?.parents?.includes(id),
+			);
+			const departedAncestry: FolderAncestry = departed.length
+				? await resolveAncestry(
+						env,
+						accountId,
+						accessToken,
+						departed,
+						watchedFolders,
+					)
+				: new Map();
+			const folders = matchFolders(
+				watchedFolders,
+				{
+					name: file?.name ?? previous?.name,
+					mimeType: file?.mimeType ?? previous?.mimeType,
+					parents: [...new Set([...(file?.parents ?? []), ...departed])],
+				},
+				new Map([...departedAncestry, ...ancestry]),
+			);
+			if (!folders.length) continue;
+
+			change.type = classifyChange(change, previous);
+			change.folders = folders.map((folder) => folder.id);
+
+			// Keep state only while the file still lives in a watched folder
+			const stillWatched =
+				file &&
+				!change.removed &&
+				watchedFolders.some((folder) =>
+					isInsideFolder(folder, file.parents, ancestry),
+				);
+
+			await saveFileState(
+				env,
+				accountId,
+				fileId,
+				stillWatched
+					? {
+							name: file.name,
+							mimeType: file.mimeType,
+							parents: file.parents ?? [],
+						}
+					: null,
+			);
+
+			// 📐 Folder rules may drop, tag or act on the change
+			const evaluation = evaluateRules(rules, change, folders);
+			change.folders = evaluation.folders.map((folder) => folder.id);
+
+			if (!evaluation.folders.length) {
+				logger.log(
+					`🙈 File ${change.type} ignored by rule:`,
+					file?.name ?? previous?.name,
+					fileId,
+				);
+				continue;
+			}
+
+			if (evaluation.tags.length) change.tags = evaluation.tags;
+
+			logger.log(
+				`✅ File ${change.type}:`,
+				file?.name ?? previous?.name,
+				fileId,
+				`(${evaluation.folders.map((folder) => folder.label ?? folder.id).join(", ")})`,
+			);
+			await deliverToSubscribers(
+				env,
+				accountId,
+				`file.${change.type}`,
+				{ folders: change.folders, change },
+				resolveDestinations(evaluation.folders),
+			);
+			await mirrorChange(
+				env,
+				accountId,
+				accessToken,
+				change,
+				evaluation.folders,
+				ancestry,
+			);
+			await runRuleActions(env, accountId, accessToken, change, evaluation);
+		}
 
-	for (const change of data.changes ?? []) {
-		const file = change.file;
-		if (!file) continue;
+		await recordChanges(env, accountId, pageToken, data.changes ?? []);
 
-		if (file.parents?.includes(googleDriveFolderID)) {
-			logger.log("✅ File uploaded:", file.name, file.id);
+		// Checkpoint after every page so a timeout resumes from here
+		const nextToken = data.nextPageToken ?? data.newStartPageToken;
+		if (nextToken) {
+			await saveCheckpoint(nextToken);
+		}
+
+		if (data.newStartPageToken) {
+			result.newStartPageToken = data.newStartPageToken;
 		}
-	}
 
-	if (data.newStartPageToken) {
-		await env.drive_kv.put("drive_start_page_token", data.newStartPageToken);
+		pageToken = data.nextPageToken ?? null;
 	}
 
-	return data;
+	logger.log(
+		`📄 Processed ${result.changes.length} change(s) across ${result.pages} page(s)`,
+	);
+
+	return result;
 }
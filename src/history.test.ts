@@ -0,0 +1,138 @@
+import { Database, type SQLQueryBindings } from "bun:sqlite";
+import { beforeEach, describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import type { D1Database } from "@cloudflare/workers-types";
+import type { DriveChange } from "./drive";
+import { queryChangeHistory, recordChanges } from "./history";
+import { createMockEnv } from "./testing";
+import type { AppBindings } from "./types";
+
+// D1 on top of an in-memory bun:sqlite database
+class MockD1 {
+	readonly db = new Database(":memory:");
+
+	constructor() {
+		this.db.run(
+			readFileSync(
+				new URL("../migrations/0001_change_history.sql", import.meta.url),
+				"utf8",
+			),
+		);
+	}
+
+	prepare(query: string, values: SQLQueryBindings[] = []) {
+		return {
+			bind: (...next: SQLQueryBindings[]) => this.prepare(query, next),
+			all: async () => ({ results: this.db.query(query).all(...values) }),
+			run: async () => this.db.query(query).run(...values),
+		};
+	}
+
+	async batch(statements: { run: () => Promise<unknown> }[]) {
+		this.db.run("BEGIN");
+		try {
+			for (const statement of statements) await statement.run();
+			this.db.run("COMMIT");
+		} catch (error) {
+			this.db.run("ROLLBACK");
+			throw error;
+		}
+	}
+}
+
+const change = (
+	id: string,
+	name: string,
+	time: string,
+	overrides: Partial<DriveChange> = {},
+): DriveChange => ({
+	time,
+	type: "created",
+	folders: ["folder_a"],
+	file: {
+		id,
+		name,
+		lastModifyingUser: { displayName: "Ada", emailAddress: "ada@example.com" },
+	},
+	...overrides,
+});
+
+describe("Change history", () => {
+	let mockEnv: AppBindings;
+	let db: D1Database;
+
+	beforeEach(async () => {
+		mockEnv = createMockEnv({
+			HISTORY_DB: new MockD1() as unknown as D1Database,
+		});
+		db = mockEnv.HISTORY_DB as D1Database;
+
+		await recordChanges(mockEnv, "default", "page_1", [
+			change("a", "report_q1.pdf", "2026-10-13T09:00:00Z"),
+			change("b", "notes.txt", "2026-10-13T15:00:00Z", { type: "modified" }),
+			change("c", "report_q2.pdf", "2026-10-14T09:00:00Z", {
+				folders: ["folder_a", "folder_b"],
+			}),
+		]);
+		await recordChanges(mockEnv, "team_b", "page_9", [
+			change("d", "report_q3.pdf", "2026-10-13T10:00:00Z"),
+		]);
+	});
+
+	const query = (overrides = {}) =>
+		queryChangeHistory(db, "default", { limit: 50, ...overrides });
+
+	test("stores one row per matched folder", async () => {
+		const { changes } = await query();
+
+		expect(changes).toHaveLength(4);
+		expect(changes[0]).toEqual({
+			id: 4,
+			fileId: "c",
+			name: "report_q2.pdf",
+			type: "created",
+			folderId: "folder_b",
+			actor: "ada@example.com",
+			changedAt: "2026-10-14T09:00:00.000Z",
+			pageToken: "page_1",
+		});
+	});
+
+	test("skips changes outside watched folders", async () => {
+		await recordChanges(mockEnv, "default", "page_2", [
+			{ fileId: "x", time: "2026-10-15T00:00:00Z" },
+		]);
+
+		expect((await query()).changes).toHaveLength(4);
+	});
+
+	test("filters by folder and time window", async () => {
+		const { changes } = await query({
+			folder: "folder_a",
+			since: Date.parse("2026-10-13T00:00:00Z"),
+			until: Date.parse("2026-10-14T00:00:00Z"),
+		});
+
+		expect(changes.map((c) => c.fileId)).toEqual(["b", "a"]);
+	});
+
+	test("filters by type and literal name prefix", async () => {
+		expect(
+			(await query({ type: "modified" })).changes.map((c) => c.fileId),
+		).toEqual(["b"]);
+		expect(
+			(await query({ name: "report_" })).changes.map((c) => c.fileId),
+		).toEqual(["c", "c", "a"]);
+		expect((await query({ name: "report%" })).changes).toHaveLength(0);
+	});
+
+	test("pages with a cursor", async () => {
+		const first = await query({ limit: 3 });
+		expect(first.changes.map((c) => c.id)).toEqual([4, 3, 2]);
+		expect(first.nextCursor).toBe("2");
+
+		const second = await query({ limit: 3, cursor: first.nextCursor });
+		expect(second.changes.map((c) => c.id)).toEqual([1]);
+		expect(second.nextCursor).toBeUndefined();
+	});
+});
@@ -0,0 +1,159 @@
+import type { D1Database } from "@cloudflare/workers-types";
+import type { ChangeEventType, DriveChange } from "./drive";
+import type { AppBindings, ChangeRecord } from "./types";
+import { logger } from "./utils";
+
+/* -------------------------------------------------------------------------- */
+/*                               Change History                               */
+/* -------------------------------------------------------------------------- */
+
+// Schema lives in migrations/0001_change_history.sql
+interface ChangeRow {
+	id: number;
+	file_id: string;
+	name: string | null;
+	event_type: ChangeEventType;
+	folder_id: string;
+	actor: string | null;
+	changed_at: number;
+	page_token: string;
+}
+
+export interface ChangeHistoryQuery {
+	/** Only changes at or after this time (milliseconds since epoch) */
+	since?: number;
+	/** Only changes before this time (milliseconds since epoch) */
+	until?: number;
+	folder?: string;
+	type?: ChangeEventType;
+	/** File name prefix (ASCII case-insensitive) */
+	name?: string;
+	/** `nextCursor` of the previous page */
+	cursor?: string;
+	limit: number;
+}
+
+export interface ChangeHistoryPage {
+	changes: ChangeRecord[];
+	/** Pass back as `cursor` for the next page; absent on the last page */
+	nextCursor?: string;
+}
+
+function toRecord(row: ChangeRow): ChangeRecord {
+	return {
+		id: row.id,
+		fileId: row.file_id,
+		name: row.name,
+		type: row.event_type,
+		folderId: row.folder_id,
+		actor: row.actor,
+		changedAt: new Date(row.changed_at).toISOString(),
+		pageToken: row.page_token,
+	};
+}
+
+/**
+ * Persist the folder-matched changes of one `changes.list` page. History is
+ * best effort: a failed write is logged and processing carries on.
+ */
+export async function recordChanges(
+	env: AppBindings,
+	accountId: string,
+	pageToken: string,
+	changes: DriveChange[],
+) {
+	const db = env.HISTORY_DB;
+	if (!db) return;
+
+	const insert = db.prepare(
+		`INSERT INTO change_history
+			(account_id, file_id, name, event_type, folder_id, actor, changed_at, page_token)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+	);
+
+	const statements = changes.flatMap((change) => {
+		const fileId = change.file?.id ?? change.fileId;
+		if (!fileId || !change.type) return [];
+
+		const user = change.file?.lastModifyingUser;
+		const changedAt = Date.parse(change.time ?? "") || Date.now();
+
+		return (change.folders ?? []).map((folderId) =>
+			insert.bind(
+				accountId,
+				fileId,
+				change.file?.name ?? null,
+				change.type,
+				folderId,
+				user?.emailAddress ?? user?.displayName ?? null,
+				changedAt,
+				pageToken,
+			),
+		);
+	});
+
+	if (!statements.length) return;
+
+	try {
+		await db.batch(statements);
+	} catch (error: unknown) {
+		logger.error("🚨 Failed to record change history", error);
+	}
+}
+
+// `%` and `_` in a prefix are literal characters, not wildcards
+function likePrefix(prefix: string) {
+	return `${prefix.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+/** Newest first; the cursor is the last row ID of the previous page */
+export async function queryChangeHistory(
+	db: D1Database,
+	accountId: string,
+	query: ChangeHistoryQuery,
+): Promise<ChangeHistoryPage> {
+	const where = ["account_id = ?"];
+	const params: unknown[] = [accountId];
+
+	if (query.since !== undefined) {
+		where.push("changed_at >= ?");
+		params.push(query.since);
+	}
+	if (query.until !== undefined) {
+		where.push("changed_at < ?");
+		params.push(query.until);
+	}
+	if (query.folder) {
+		where.push("folder_id = ?");
+		params.push(query.folder);
+	}
+	if (query.type) {
+		where.push("event_type = ?");
+		params.push(query.type);
+	}
+	if (query.name) {
+		where.push("name LIKE ? ESCAPE '\\'");
+		params.push(likePrefix(query.name));
+	}
+	if (query.cursor) {
+		where.push("id < ?");
+		params.push(Number(query.cursor));
+	}
+
+	// Fetch one extra row to learn whether another page exists
+	const { results } = await db
+		.prepare(
+			`SELECT * FROM change_history WHERE ${where.join(" AND ")} ORDER BY id DESC LIMIT ?`,
+		)
+		.bind(...params, query.limit + 1)
+		.all<ChangeRow>();
+
+	const rows = results.slice(0, query.limit);
+	const last = rows.at(-1);
+
+	return {
+		changes: rows.map(toRecord),
+		nextCursor:
+			results.length > query.limit && last ? String(last.id) : undefined,
+	};
+}
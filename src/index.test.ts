@@ -1,8 +1,26 @@
 import { describe, expect, test, beforeEach, mock, vi } from "bun:test";
+import { listAccounts } from "./accounts";
+import * as drive from "./drive";
+import * as helpers from "./helper";
+import { openSecret, signValue } from "./crypto";
 import app from "./index";
-import type { AppBindings } from "./types";
-import type { KVNamespace } from "@cloudflare/workers-types";
-import type { Next } from "hono";
+import { ChangeProcessor } from "./processor";
+import { markReauthRequired, OAuthError } from "./reauth";
+import { createSubscription, deliverToSubscribers } from "./subscriptions";
+import {
+	createMockEnv,
+	mockCaches,
+	mockFetch,
+	type MockQueue,
+	MockStorage,
+} from "./testing";
+import type { AppBindings, ChangeJob, QueueJob } from "./types";
+import type {
+	DurableObjectNamespace,
+	DurableObjectState,
+	MessageBatch,
+} from "@cloudflare/workers-types";
+import type { ExecutionContext, Next } from "hono";
 
 vi.mock("./middleware", () => ({
 	allowGoogleOnly: (_: { Bindings: AppBindings }, next: Next) => next(),
@@ -17,17 +35,7 @@ mock.module("./helper", () => ({
 			expiry_date: Date.now() + 3600000,
 		}),
 	),
-	watchChannel: mock(() =>
-		Promise.resolve({
-			ok: true,
-			json: async () => ({ resourceId: "mock_resource_id" }),
-		} as Response),
-	),
-	validateDriveWebhook: mock(
-		(expected?: string | null, received?: string) =>
-			Promise.resolve(!!received && received === expected),
-	),
-	fetchAndLogChanges: mock(() => Promise.resolve({ changes: [] })),
+	fetchAndLogChanges: mock(() => Promise.resolve({ changes: [], pages: 1 })),
 	generateAuthUrl: mock(() => "https://accounts.google.com/o/oauth2/auth?..."),
 	getOrUpdateKV: mock(async (env: AppBindings, key: string, value?: string | null) => {
 		if (value) {
@@ -39,48 +47,121 @@ mock.module("./helper", () => ({
 	getValidAccessToken: mock(() => Promise.resolve("mock_valid_token")),
 }));
 
-// Mock KV storage
-class MockKV {
-	private store = new Map<string, string>();
-
-	async get(key: string): Promise<string | null> {
-		return this.store.get(key) || null;
-	}
+mock.module("./drive", () => ({
+	watchChanges: mock(() =>
+		Promise.resolve({
+			ok: true,
+			data: { id: "mock_channel_id", resourceId: "mock_resource_id" },
+		}),
+	),
+}));
 
-	async put(key: string, value: string): Promise<void> {
-		this.store.set(key, value);
+// Store the metadata of an active Drive watch channel
+const seedChannel = async (
+	env: AppBindings,
+	{
+		accountId = "default",
+		channelId = "channel_id",
+		resourceId = "resource_id",
+		token = "valid_token",
+		expiration = Date.now() + 3600000,
+	} = {},
+) => {
+	const key = (name: string) =>
+		accountId === "default" ? name : `account:${accountId}:${name}`;
+
+	await env.drive_kv.put(key("driveChannelId"), channelId);
+	await env.drive_kv.put(key("driveResourceId"), resourceId);
+	await env.drive_kv.put(key("driveWebhookToken"), token);
+	await env.drive_kv.put(key("driveChannelExpiration"), expiration.toString());
+	await env.drive_kv.put(`channel:${channelId}`, JSON.stringify({ accountId }));
+};
+
+// In-process Durable Object namespace: one ChangeProcessor per name
+class MockDurableObjectNamespace {
+	private instances = new Map<string, ChangeProcessor>();
+
+	constructor(private readonly env: AppBindings) {}
+
+	idFromName(name: string) {
+		return name;
 	}
 
-	async delete(key: string): Promise<void> {
-		this.store.delete(key);
-	}
+	get(name: string) {
+		let instance = this.instances.get(name);
+		if (!instance) {
+			const state = { storage: new MockStorage() };
+			instance = new ChangeProcessor(
+				state as unknown as DurableObjectState,
+				this.env,
+			);
+			this.instances.set(name, instance);
+		}
 
-	clear() {
-		this.store.clear();
+		const processor = instance;
+		return {
+			fetch: (url: string, init?: RequestInit) =>
+				processor.fetch(new Request(url, init)),
+		};
 	}
 }
 
+// Hand `bodies` to the worker's queue handler as one batch
+const deliverBatch = async (
+	env: AppBindings,
+	bodies: QueueJob[],
+	queue = "drive-changes",
+) => {
+	const messages = bodies.map((body, index) => ({
+		id: `msg_${index}`,
+		timestamp: new Date(),
+		body,
+		attempts: 1,
+		ack: mock(),
+		retry: mock(),
+	}));
+	const batch = {
+		queue,
+		messages,
+		ackAll: () => {
+			for (const message of messages) message.ack();
+		},
+		retryAll: () => {
+			for (const message of messages) message.retry();
+		},
+	};
+
+	await app.queue(batch as unknown as MessageBatch<QueueJob>, env);
+	return messages;
+};
+
+const drainQueue = (env: AppBindings) =>
+	deliverBatch(env, (env.CHANGE_QUEUE as unknown as MockQueue).sent.splice(0));
+
 // Mock AppBindings
-const createMockEnv = (): AppBindings => ({
-	WEBHOOK_AUTH_KEY: "test_auth_key",
-	CLOUDFLARE_API_TOKEN: "test_cf_token",
-	drive_kv: new MockKV() as unknown as KVNamespace,
-});
+const createAppEnv = (): AppBindings => {
+	const env = createMockEnv();
+	env.CHANGE_PROCESSOR = new MockDurableObjectNamespace(
+		env,
+	) as unknown as DurableObjectNamespace;
+
+	return env;
+};
 
 describe("Drive Webhook API", () => {
 	let mockEnv: AppBindings;
+	let fetchMock: ReturnType<typeof mockFetch>;
 
 	beforeEach(() => {
-		mockEnv = createMockEnv();
-		(mockEnv.drive_kv as unknown as MockKV).clear();
+		mockEnv = createAppEnv();
 
 		// Mock fetch for allowGoogleOnly middleware
-		global.fetch = mock((url: string) => {
+		fetchMock = mockFetch((url: string) => {
 			if (url.includes("metadata.google.internal")) {
 				return Promise.resolve(new Response("Google", { status: 200 }));
 			}
 			return Promise.resolve(new Response("{}", { status: 200 }));
-		}) as any;
+		});
 	});
 
 	describe("GET /", () => {
@@ -107,6 +188,58 @@ describe("Drive Webhook API", () => {
 		});
 	});
 
+	describe("Route cache", () => {
+		test("should check the bearer token before serving a cached read", async () => {
+			const caches = mockCaches();
+			caches.entries.set(
+				"http://localhost/wrangler/tail",
+				new Response("cached tail"),
+			);
+
+			try {
+				const res = await app.fetch(
+					new Request("http://localhost/wrangler/tail"),
+					mockEnv,
+					caches.ctx,
+				);
+
+				expect(res.status).toBe(401);
+			} finally {
+				caches.restore();
+			}
+		});
+
+		test("should neither cache nor replay mutations", async () => {
+			const caches = mockCaches();
+			caches.entries.set(
+				"http://localhost/drive/watch",
+				new Response("cached watch"),
+			);
+
+			try {
+				const res = await app.fetch(
+					new Request("http://localhost/drive/watch", {
+						method: "DELETE",
+						headers: {
+							"Content-Type": "application/json",
+							Authorization: "Bearer test_auth_key",
+						},
+					}),
+					mockEnv,
+					caches.ctx,
+				);
+
+				expect(res.status).toBe(404);
+				expect(await res.text()).not.toBe("cached watch");
+				expect([...caches.entries.keys()]).toEqual([
+					"http://localhost/drive/watch",
+				]);
+			} finally {
+				caches.restore();
+			}
+		});
+	});
+
 	describe("POST /oauth/url", () => {
 		test("should generate OAuth URL with valid credentials", async () => {
 			const req = new Request("http://localhost/oauth/url", {
@@ -128,6 +261,8 @@ describe("Drive Webhook API", () => {
 			expect(res.status).toBe(200);
 			expect(data.auth_url).toBeDefined();
 			expect(data.message).toContain("authorize");
+			expect(data.state).toBeDefined();
+			expect(data.expires_in).toBe(600);
 		});
 
 		test("should reject request with missing client_id", async () => {
@@ -166,24 +301,191 @@ describe("Drive Webhook API", () => {
 
 			expect(res.status).toBe(400);
 		});
+
+		test("should start a new authorization on every call", async () => {
+			const caches = mockCaches();
+			const authorize = (accountId: string, token = "test_auth_key") =>
+				app.fetch(
+					new Request("http://localhost/oauth/url", {
+						method: "POST",
+						headers: {
+							"Content-Type": "application/json",
+							Authorization: `Bearer ${token}`,
+						},
+						body: JSON.stringify({
+							account_id: accountId,
+							client_id: "test_client_id",
+							client_secret: "test_client_secret",
+							redirect_uris: ["http://localhost/oauth/callback"],
+						}),
+					}),
+					mockEnv,
+					caches.ctx,
+				);
+
+			try {
+				const first = await (await authorize("default")).json();
+				const second = await (await authorize("team_b")).json();
+
+				expect(second.state).not.toBe(first.state);
+				expect((await authorize("team_c", "wrong_key")).status).toBe(401);
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
 	});
 
 	describe("GET /oauth/callback", () => {
-		test("should store OAuth code successfully", async () => {
-			const gAuthCode = "test_auth_code_123";
-			const req = new Request(
-				`http://localhost/oauth/callback?code=${gAuthCode}`,
+		const startAuthorization = async (body: Record<string, unknown> = {}) => {
+			const res = await app.fetch(
+				new Request("http://localhost/oauth/url", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify({
+						client_id: "test_client_id",
+						client_secret: "test_client_secret",
+						redirect_uris: ["http://localhost/oauth/callback"],
+						...body,
+					}),
+				}),
+				mockEnv,
 			);
+			return (await res.json()).state as string;
+		};
 
-			const res = await app.fetch(req, mockEnv);
-			const data = await res.json();
+		const callback = (query: string) =>
+			app.fetch(new Request(`http://localhost/oauth/callback?${query}`), mockEnv);
+
+		test("should exchange the code and store tokens in one step", async () => {
+			const state = await startAuthorization({ account_id: "team_b" });
+
+			const res = await callback(`code=secret_code_123&state=${state}`);
+			const page = await res.text();
+
+			expect(res.status).toBe(200);
+			expect(res.headers.get("Content-Type")).toContain("text/html");
+			expect(res.headers.get("Cache-Control")).toBe("no-store");
+			expect(page).toContain("Google Drive connected");
+			expect(page).not.toContain("secret_code_123");
+
+			const [, code, verifier] = (
+				helpers.getAccessTokens as ReturnType<typeof mock>
+			).mock.calls.at(-1) as [unknown, string, string];
+			expect(code).toBe("secret_code_123");
+
+			// The URL carried the S256 challenge of the verifier sent now
+			const [, { authorization, profile }] = (
+				helpers.generateAuthUrl as ReturnType<typeof mock>
+			).mock.calls.at(-1) as [
+				unknown,
+				{ authorization: { state: string; codeChallenge: string }; profile: string },
+			];
+			expect(profile).toBe("full");
+			const digest = new Uint8Array(
+				await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier)),
+			);
+			expect(authorization.state).toBe(state);
+			expect(authorization.codeChallenge).toBe(
+				Buffer.from(digest).toString("base64url"),
+			);
+			const refreshToken = await mockEnv.drive_kv.get(
+				"account:team_b:refreshToken",
+			);
+			expect(await openSecret(mockEnv, refreshToken!)).toBe(
+				"mock_refresh_token",
+			);
+			expect(await mockEnv.drive_kv.get("accounts")).toContain("team_b");
+		});
+
+		test("should set up tracking and a watch channel when asked", async () => {
+			mockFetch(() =>
+				Promise.resolve(
+					new Response(JSON.stringify({ startPageToken: "fresh_token" })),
+				),
+			);
+			const state = await startAuthorization({
+				init_tracking: true,
+				worker_drive_webhook_url: "https://worker.example.com/drive/webhook",
+			});
+
+			const res = await callback(`code=test_code&state=${state}`);
 
 			expect(res.status).toBe(200);
-			expect(data.auth_code).toBe(gAuthCode);
-			expect(data.message).toContain("stored");
+			expect(await res.text()).toContain("now being watched");
+			expect(await mockEnv.drive_kv.get("drive_start_page_token")).toBe(
+				"fresh_token",
+			);
+			expect(await mockEnv.drive_kv.get("driveResourceId")).toBe(
+				"mock_resource_id",
+			);
+			expect(await mockEnv.drive_kv.get("worker_drive_webhook_url")).toBe(
+				"https://worker.example.com/drive/webhook",
+			);
+		});
 
-			const storedGAuthCode = await mockEnv.drive_kv.get("auth_code");
-			expect(storedGAuthCode).toBe(gAuthCode);
+		test("should accept each state only once", async () => {
+			const state = await startAuthorization();
+
+			expect((await callback(`code=test_code&state=${state}`)).status).toBe(200);
+
+			const replay = await callback(`code=test_code&state=${state}`);
+			expect(replay.status).toBe(400);
+			expect(await replay.text()).toContain("expired");
+		});
+
+		test("should show a failure page when consent is denied", async () => {
+			const state = await startAuthorization();
+
+			const res = await callback(`error=access_denied&state=${state}`);
+
+			expect(res.status).toBe(400);
+			expect(await res.text()).toContain("access_denied");
+			expect(await mockEnv.drive_kv.get(`oauth_pending:${state}`)).toBeNull();
+		});
+
+		test("should show a failure page when the exchange fails", async () => {
+			(helpers.getAccessTokens as ReturnType<typeof mock>).mockImplementationOnce(
+				() => Promise.reject(new Error("invalid_grant")),
+			);
+			const state = await startAuthorization();
+
+			const res = await callback(`code=test_code&state=${state}`);
+
+			expect(res.status).toBe(502);
+			expect(await res.text()).toContain("Authorization failed");
+			expect(await mockEnv.drive_kv.get("refreshToken")).toBeNull();
+		});
+
+		test("should reject a code without state", async () => {
+			const res = await callback("code=test_auth_code_123");
+
+			expect(res.status).toBe(400);
+			expect(await res.text()).not.toContain("test_auth_code_123");
+			expect(await mockEnv.drive_kv.get("auth_code")).toBeNull();
+		});
+
+		test("should reject a forged or expired state", async () => {
+			const state = await startAuthorization();
+			const [value] = state.split(/\.(?=[^.]*$)/);
+
+			const forged = await callback(`code=test_code&state=${value}.AAAA`);
+			expect(forged.status).toBe(400);
+			expect(await forged.text()).toContain("Invalid sign-in link");
+
+			const [id] = value.split(".");
+			const expired = await signValue(
+				mockEnv,
+				"oauth-state",
+				`${id}.${Date.now() - 1000}`,
+			);
+			const stale = await callback(`code=test_code&state=${expired}`);
+			expect(stale.status).toBe(400);
+			expect(await stale.text()).toContain("expired");
+			expect(await mockEnv.drive_kv.get(`oauth_pending:${id}`)).toBeNull();
 		});
 
 		test("should reject request without code parameter", async () => {
@@ -195,6 +497,150 @@ describe("Drive Webhook API", () => {
 		});
 	});
 
+	describe("OAuth scopes", () => {
+		const post = (path: string, body: Record<string, unknown>) =>
+			app.fetch(
+				new Request(`http://localhost${path}`, {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify(body),
+				}),
+				mockEnv,
+			);
+
+		const oauthUrl = (scope_profile: string) =>
+			post("/oauth/url", {
+				client_id: "test_client_id",
+				client_secret: "test_client_secret",
+				redirect_uris: ["http://localhost/oauth/callback"],
+				scope_profile,
+			});
+
+		test("should request the chosen scope profile", async () => {
+			const res = await oauthUrl("readonly");
+
+			expect(res.status).toBe(200);
+			expect((await res.json()).scope_profile).toBe("readonly");
+			const [, request] = (
+				helpers.generateAuthUrl as ReturnType<typeof mock>
+			).mock.calls.at(-1) as [unknown, { profile: string }];
+			expect(request.profile).toBe("readonly");
+
+			expect((await oauthUrl("everything")).status).toBe(400);
+		});
+
+		test("should store the granted scope", async () => {
+			(helpers.getAccessTokens as ReturnType<typeof mock>).mockImplementationOnce(
+				() =>
+					Promise.resolve({
+						access_token: "mock_access_token",
+						refresh_token: "mock_refresh_token",
+						scope: "https://www.googleapis.com/auth/drive.metadata.readonly",
+					}),
+			);
+			const { state } = await (await oauthUrl("metadata")).json();
+
+			await app.fetch(
+				new Request(`http://localhost/oauth/callback?code=c&state=${state}`),
+				mockEnv,
+			);
+
+			expect(await mockEnv.drive_kv.get("scope")).toBe(
+				"https://www.googleapis.com/auth/drive.metadata.readonly",
+			);
+		});
+
+		test("should keep the stored refresh token when Google sends none", async () => {
+			await mockEnv.drive_kv.put("refreshToken", "existing_refresh");
+			(helpers.getAccessTokens as ReturnType<typeof mock>).mockImplementationOnce(
+				() => Promise.resolve({ access_token: "mock_access_token" }),
+			);
+			const { state } = await (await oauthUrl("metadata")).json();
+
+			await app.fetch(
+				new Request(`http://localhost/oauth/callback?code=c&state=${state}`),
+				mockEnv,
+			);
+
+			expect(await mockEnv.drive_kv.get("refreshToken")).toBe(
+				"existing_refresh",
+			);
+			expect(
+				await openSecret(mockEnv, (await mockEnv.drive_kv.get("accessToken"))!),
+			).toBe("mock_access_token");
+		});
+
+		test("should refuse routes the granted scope cannot serve", async () => {
+			await mockEnv.drive_kv.put(
+				"scope",
+				"https://www.googleapis.com/auth/drive.metadata.readonly",
+			);
+			fetchMock = mockFetch(() =>
+				Promise.resolve(
+					new Response(JSON.stringify({ startPageToken: "token" })),
+				),
+			);
+
+			const download = await post("/drive/download", { file_id: "file_1" });
+			const data = await download.json();
+
+			expect(download.status).toBe(403);
+			expect(data.required).toBe("content");
+			expect(data.profiles).toEqual(["readonly", "file", "full"]);
+			expect(fetchMock).not.toHaveBeenCalled();
+
+			// Metadata access is enough to track changes
+			const tracking = await post("/drive/startPageToken", {
+				access_token: "token",
+			});
+			expect(tracking.status).toBe(200);
+		});
+
+		test("should refuse copy and move rules without write access", async () => {
+			await mockEnv.drive_kv.put(
+				"scope",
+				"https://www.googleapis.com/auth/drive.readonly",
+			);
+			await mockEnv.drive_kv.put(
+				"watched_folders",
+				JSON.stringify([{ id: "folder_a", createdAt: 0 }]),
+			);
+
+			const rule = (type: string) =>
+				post("/rules", {
+					folder_id: "folder_a",
+					actions: [
+						type === "tag"
+							? { type, tags: ["seen"] }
+							: { type, folder_id: "archive" },
+					],
+				});
+
+			const move = await rule("move");
+			expect(move.status).toBe(403);
+			expect((await move.json()).required).toBe("write");
+
+			expect((await rule("tag")).status).toBe(201);
+		});
+
+		test("should check the account named in the request", async () => {
+			await mockEnv.drive_kv.put(
+				"account:team_b:scope",
+				"https://www.googleapis.com/auth/drive.metadata.readonly",
+			);
+
+			const res = await post("/drive/download", {
+				account_id: "team_b",
+				file_id: "file_1",
+			});
+
+			expect(res.status).toBe(403);
+		});
+	});
+
 	describe("POST /oauth/exchange", () => {
 		test("should exchange auth code for tokens", async () => {
 			const req = new Request("http://localhost/oauth/exchange", {
@@ -220,6 +666,34 @@ describe("Drive Webhook API", () => {
 			expect(data.refreshToken).toBeDefined();
 		});
 
+		test("should register the account even when the exchange fails", async () => {
+			(helpers.getAccessTokens as ReturnType<typeof mock>).mockImplementationOnce(
+				() => Promise.reject(new Error("invalid_grant")),
+			);
+
+			const res = await app.fetch(
+				new Request("http://localhost/oauth/exchange", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify({
+						account_id: "team_c",
+						auth_code: "test_auth_code",
+						client_id: "test_client_id",
+						client_secret: "test_client_secret",
+						redirect_uris: ["http://localhost/oauth/callback"],
+					}),
+				}),
+				mockEnv,
+			);
+
+			// The client secret is stored already, and a reseal must find it
+			expect(res.status).toBe(500);
+			expect(await listAccounts(mockEnv)).toContain("team_c");
+		});
+
 		test("should reject request with missing auth code", async () => {
 			await mockEnv.drive_kv.delete("redirect_uris");
 
@@ -281,16 +755,313 @@ describe("Drive Webhook API", () => {
 		});
 	});
 
+	describe("POST /oauth/revoke", () => {
+		const revokeRequest = (accountId = "default", ctx?: ExecutionContext) =>
+			app.fetch(
+				new Request("http://localhost/oauth/revoke", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify({ account_id: accountId }),
+				}),
+				mockEnv,
+				ctx,
+			);
+
+		const seedConnection = async () => {
+			await seedChannel(mockEnv);
+			await mockEnv.drive_kv.put("accessToken", "access_token");
+			await mockEnv.drive_kv.put("refreshToken", "refresh_token");
+			await mockEnv.drive_kv.put("auth_code", "old_code");
+			await mockEnv.drive_kv.put("accessTokenRefreshLock", "1700000000000");
+			await mockEnv.drive_kv.put("drive_start_page_token", "page_token");
+			await mockEnv.drive_kv.put("client_id", "test_client_id");
+		};
+
+		const revokeCall = () =>
+			fetchMock.mock.calls.find(
+				([url]) => url === "https://oauth2.googleapis.com/revoke",
+			);
+
+		test("should stop the channel, revoke and purge the account", async () => {
+			await seedConnection();
+
+			const res = await revokeRequest();
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.channel).toEqual({ channelId: "channel_id", stopped: true });
+			expect(data.revocation).toBe("revoked");
+			expect(data.removedKeys).toEqual(
+				expect.arrayContaining([
+					"accessToken",
+					"refreshToken",
+					"auth_code",
+					"accessTokenRefreshLock",
+					"drive_start_page_token",
+				]),
+			);
+			expect(String(revokeCall()?.[1]?.body)).toBe("token=refresh_token");
+
+			for (const key of [
+				"accessToken",
+				"refreshToken",
+				"auth_code",
+				"accessTokenRefreshLock",
+				"drive_start_page_token",
+				"driveChannelId",
+				"channel:channel_id",
+			]) {
+				expect(await mockEnv.drive_kv.get(key)).toBeNull();
+			}
+			// Configuration survives for the next authorization
+			expect(await mockEnv.drive_kv.get("client_id")).toBe("test_client_id");
+		});
+
+		test("should purge tokens Google no longer knows", async () => {
+			await seedConnection();
+			mockFetch(() =>
+				Promise.resolve(new Response("invalid_token", { status: 400 })),
+			);
+
+			const res = await revokeRequest();
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.revocation).toBe("already_invalid");
+			expect(data.channel.stopped).toBe(false);
+			expect(await mockEnv.drive_kv.get("refreshToken")).toBeNull();
+			expect(await mockEnv.drive_kv.get("channel:channel_id")).toBeNull();
+		});
+
+		test("should keep the tokens when Google cannot revoke", async () => {
+			await seedConnection();
+			mockFetch(() =>
+				Promise.resolve(new Response("backend error", { status: 503 })),
+			);
+
+			const res = await revokeRequest();
+
+			expect(res.status).toBe(502);
+			expect(await mockEnv.drive_kv.get("refreshToken")).toBe("refresh_token");
+		});
+
+		test("should disconnect each account instead of replaying a report", async () => {
+			const caches = mockCaches();
+			await seedConnection();
+			await mockEnv.drive_kv.put("account:team_b:refreshToken", "team_b_token");
+
+			try {
+				const first = await revokeRequest("default", caches.ctx);
+				const second = await revokeRequest("team_b", caches.ctx);
+
+				expect((await first.json()).accountId).toBe("default");
+				expect((await second.json()).accountId).toBe("team_b");
+				expect(
+					await mockEnv.drive_kv.get("account:team_b:refreshToken"),
+				).toBeNull();
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
+
+		test("should report an account without tokens", async () => {
+			const res = await revokeRequest();
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data).toMatchObject({
+				channel: null,
+				fileWatches: [],
+				revocation: "no_token",
+				removedKeys: [],
+			});
+			expect(revokeCall()).toBeUndefined();
+		});
+	});
+
+	describe("Re-authorization", () => {
+		const refuseGrant = (accountId = "default") =>
+			markReauthRequired(
+				mockEnv,
+				accountId,
+				new OAuthError("invalid_grant", 400),
+			);
+
+		const startPageToken = (accountId = "default") =>
+			app.fetch(
+				new Request("http://localhost/drive/startPageToken", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify({ account_id: accountId }),
+				}),
+				mockEnv,
+			);
+
+		test("should answer Drive routes with 409 and a consent URL", async () => {
+			await refuseGrant();
+			await mockEnv.drive_kv.put("client_id", "test_client_id");
+			await mockEnv.drive_kv.put("client_secret", "test_client_secret");
+			await mockEnv.drive_kv.put(
+				"redirect_uris",
+				JSON.stringify(["http://localhost/oauth/callback"]),
+			);
+			await mockEnv.drive_kv.put("scope", "https://www.googleapis.com/auth/drive.readonly");
+
+			const res = await startPageToken();
+			const data = await res.json();
+
+			expect(res.status).toBe(409);
+			expect(data).toMatchObject({
+				reason: "reauth_required",
+				accountId: "default",
+				error: "invalid_grant",
+			});
+			expect(data.auth_url).toStartWith("https://accounts.google.com/");
+
+			// Same scopes as before, finished by the usual callback
+			const [, request] = (
+				helpers.generateAuthUrl as ReturnType<typeof mock>
+			).mock.calls.at(-1) as [unknown, { profile: string }];
+			expect(request.profile).toBe("readonly");
+		});
+
+		test("should hand out the same consent URL until it expires", async () => {
+			await refuseGrant();
+			await mockEnv.drive_kv.put("client_id", "test_client_id");
+			await mockEnv.drive_kv.put("client_secret", "test_client_secret");
+			await mockEnv.drive_kv.put(
+				"redirect_uris",
+				JSON.stringify(["http://localhost/oauth/callback"]),
+			);
+
+			const authorizations = [];
+			for (const _ of [1, 2]) {
+				const data = await (await startPageToken()).json();
+				expect(data.expires_in).toBeLessThanOrEqual(600);
+
+				const [, request] = (
+					helpers.generateAuthUrl as ReturnType<typeof mock>
+				).mock.calls.at(-1) as [unknown, { authorization: unknown }];
+				authorizations.push(request.authorization);
+			}
+
+			expect(authorizations[1]).toEqual(authorizations[0]);
+
+			// Once used by the callback, the next 409 starts a new one
+			await mockEnv.drive_kv.delete(
+				`oauth_pending:${JSON.parse((await mockEnv.drive_kv.get("oauth_reauth_pending"))!).id}`,
+			);
+			await startPageToken();
+			const [, latest] = (
+				helpers.generateAuthUrl as ReturnType<typeof mock>
+			).mock.calls.at(-1) as [unknown, { authorization: unknown }];
+			expect(latest.authorization).not.toEqual(authorizations[0]);
+		});
+
+		test("should point to /oauth/url without client credentials", async () => {
+			await refuseGrant();
+
+			const res = await startPageToken();
+			const data = await res.json();
+
+			expect(res.status).toBe(409);
+			expect(data.auth_url).toBeNull();
+			expect(data.message).toContain("/oauth/url");
+		});
+
+		test("should leave other accounts alone", async () => {
+			await refuseGrant("team_b");
+
+			expect((await startPageToken()).status).not.toBe(409);
+			expect((await startPageToken("team_b")).status).toBe(409);
+		});
+
+		test("should only count affected accounts in /health", async () => {
+			await refuseGrant("team_b");
+
+			const res = await app.fetch(
+				new Request("http://localhost/health"),
+				mockEnv,
+			);
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.status).toBe("DEGRADED");
+			expect(data.reauthRequired).toBe(1);
+			expect(JSON.stringify(data)).not.toContain("team_b");
+		});
+
+		test("should list affected accounts behind authentication", async () => {
+			await refuseGrant("team_b");
+
+			const anonymous = await app.fetch(
+				new Request("http://localhost/health/accounts"),
+				mockEnv,
+			);
+			expect(anonymous.status).toBe(401);
+
+			const res = await app.fetch(
+				new Request("http://localhost/health/accounts", {
+					headers: { Authorization: "Bearer test_auth_key" },
+				}),
+				mockEnv,
+			);
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.reauthRequired).toEqual([
+				{ accountId: "team_b", error: "invalid_grant", since: expect.any(Number) },
+			]);
+		});
+
+		test("should clear the condition once new tokens are stored", async () => {
+			await refuseGrant();
+
+			const res = await app.fetch(
+				new Request("http://localhost/oauth/exchange", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify({
+						auth_code: "test_auth_code",
+						client_id: "test_client_id",
+						client_secret: "test_client_secret",
+						redirect_uris: ["http://localhost/oauth/callback"],
+					}),
+				}),
+				mockEnv,
+			);
+
+			expect(res.status).toBe(200);
+			expect(await mockEnv.drive_kv.get("reauth_required")).toBeNull();
+
+			const health = await app.fetch(
+				new Request("http://localhost/health"),
+				mockEnv,
+			);
+			expect((await health.json()).status).toBe("OK");
+		});
+	});
+
 	describe("POST /drive/startPageToken", () => {
 		test("should fetch and store startPageToken", async () => {
 			// Mock the Google Drive API response
-			global.fetch = mock(() =>
+			mockFetch(() =>
 				Promise.resolve(
 					new Response(JSON.stringify({ startPageToken: "mock_token_123" }), {
 						status: 200,
 					}),
 				),
-			) as any;
+			);
 
 			const req = new Request("http://localhost/drive/startPageToken", {
 				method: "POST",
@@ -327,20 +1098,90 @@ describe("Drive Webhook API", () => {
 		});
 	});
 
-	describe("POST /drive/watch", () => {
-		test("should create drive watch channel successfully", async () => {
-			const req = new Request("http://localhost/drive/watch", {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-					Authorization: "Bearer test_auth_key",
-				},
-				body: JSON.stringify({
-					access_token: "test_access_token",
-					drive_start_page_token: "test_start_token",
-					worker_drive_webhook_url: "https://example.com/webhook",
+	describe("Shared drives", () => {
+		const post = (path: string, body: Record<string, unknown>) =>
+			app.fetch(
+				new Request(`http://localhost${path}`, {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify(body),
 				}),
-			});
+				mockEnv,
+			);
+
+		test("should fetch the start page token of the selected drive", async () => {
+			fetchMock = mockFetch(() =>
+				Promise.resolve(
+					new Response(JSON.stringify({ startPageToken: "shared_token" })),
+				),
+			);
+
+			const res = await post("/drive/startPageToken", {
+				access_token: "test_access_token",
+				drive_id: "shared_drive",
+			});
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.drive_id).toBe("shared_drive");
+			expect(await mockEnv.drive_kv.get("drive_id")).toBe("shared_drive");
+
+			const url = new URL(
+				fetchMock.mock.calls[0]![0],
+			);
+			expect(url.searchParams.get("driveId")).toBe("shared_drive");
+			expect(url.searchParams.get("supportsAllDrives")).toBe("true");
+		});
+
+		test("should reject switching drives without a matching page token", async () => {
+			await mockEnv.drive_kv.put("drive_start_page_token", "my_drive_token");
+
+			const res = await post("/drive/watch", {
+				drive_id: "shared_drive",
+				worker_drive_webhook_url: "https://example.com/webhook",
+			});
+
+			expect(res.status).toBe(400);
+			expect(await mockEnv.drive_kv.get("drive_id")).toBeNull();
+		});
+
+		test("should watch the stored shared drive", async () => {
+			await mockEnv.drive_kv.put("drive_start_page_token", "shared_token");
+			await mockEnv.drive_kv.put("drive_id", "shared_drive");
+
+			const res = await post("/drive/watch", {
+				worker_drive_webhook_url: "https://example.com/webhook",
+			});
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.driveId).toBe("shared_drive");
+			expect(drive.watchChanges).toHaveBeenLastCalledWith(
+				expect.objectContaining({
+					driveId: "shared_drive",
+					startPageToken: "shared_token",
+				}),
+			);
+		});
+	});
+
+	describe("POST /drive/watch", () => {
+		test("should create drive watch channel successfully", async () => {
+			const req = new Request("http://localhost/drive/watch", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: "Bearer test_auth_key",
+				},
+				body: JSON.stringify({
+					access_token: "test_access_token",
+					drive_start_page_token: "test_start_token",
+					worker_drive_webhook_url: "https://example.com/webhook",
+				}),
+			});
 
 			const res = await app.fetch(req, mockEnv);
 			const data = await res.json();
@@ -440,14 +1281,17 @@ describe("Drive Webhook API", () => {
 		});
 
 		test("should process change notification", async () => {
-			await mockEnv.drive_kv.put("driveWebhookToken", "valid_token");
+			await seedChannel(mockEnv);
 
 			const req = new Request("http://localhost/drive/webhook", {
 				method: "POST",
 				headers: {
 					"Content-Type": "application/json",
 					"X-Goog-Resource-State": "change",
+					"X-Goog-Channel-ID": "channel_id",
 					"X-Goog-Channel-Token": "valid_token",
+					"X-Goog-Resource-ID": "resource_id",
+					"X-Goog-Message-Number": "2",
 					Authorization: "Bearer test_auth_key",
 				},
 				body: JSON.stringify({
@@ -462,17 +1306,21 @@ describe("Drive Webhook API", () => {
 
 			expect(res.status).toBe(200);
 			expect(data.message).toContain("processed");
+			expect(data.result.pages).toBe(1);
 		});
 
 		test("should reject unauthorized webhook calls", async () => {
-			await mockEnv.drive_kv.put("driveWebhookToken", "a-real-token");
+			await seedChannel(mockEnv, { token: "a-real-token" });
 
 			const req = new Request("http://localhost/drive/webhook", {
 				method: "POST",
 				headers: {
 					"Content-Type": "application/json",
 					"X-Goog-Resource-State": "change",
+					"X-Goog-Channel-ID": "channel_id",
 					"X-Goog-Channel-Token": "an-invalid-token",
+					"X-Goog-Resource-ID": "resource_id",
+					"X-Goog-Message-Number": "2",
 					Authorization: "Bearer test_auth_key",
 				},
 				body: JSON.stringify({
@@ -490,14 +1338,17 @@ describe("Drive Webhook API", () => {
 		test("should use stored configuration if optional params are missing", async () => {
 			await mockEnv.drive_kv.put("accessToken", "stored_access_token");
 			await mockEnv.drive_kv.put("drive_start_page_token", "stored_page_token");
-			await mockEnv.drive_kv.put("driveWebhookToken", "valid_token");
+			await seedChannel(mockEnv);
 
 			const req = new Request("http://localhost/drive/webhook", {
 				method: "POST",
 				headers: {
 					"Content-Type": "application/json",
 					"X-Goog-Resource-State": "change",
+					"X-Goog-Channel-ID": "channel_id",
 					"X-Goog-Channel-Token": "valid_token",
+					"X-Goog-Resource-ID": "resource_id",
+					"X-Goog-Message-Number": "2",
 					Authorization: "Bearer test_auth_key",
 				},
 				body: JSON.stringify({
@@ -513,178 +1364,1732 @@ describe("Drive Webhook API", () => {
 		});
 	});
 
-	describe("POST /drive/download", () => {
-		test("should download file by name from changes", async () => {
-			// Mock Drive API responses
-			global.fetch = mock((url: string) => {
-				if (url.includes("/changes?")) {
-					return Promise.resolve(
-						new Response(
-							JSON.stringify({
-								changes: [
-									{
-										file: {
-											id: "file123",
-											name: "test.pdf",
-											mimeType: "application/pdf",
-										},
-									},
-								],
-							}),
-							{ status: 200 },
-						),
-					);
-				}
-				// File download
-				return Promise.resolve(
-					new Response(new Blob(["file content"]), { status: 200 }),
+	describe("Watch channel management", () => {
+		const watchRequest = (
+			method: string,
+			path = "/drive/watch",
+			ctx?: ExecutionContext,
+		) =>
+			app.fetch(
+				new Request(`http://localhost${path}`, {
+					method,
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: method === "POST" ? "{}" : undefined,
+				}),
+				mockEnv,
+				ctx,
+			);
+
+		const driveCalls = () =>
+			fetchMock.mock.calls.map(
+				([url]) => url as string,
+			);
+
+		test("should report the current channel", async () => {
+			await seedChannel(mockEnv);
+
+			const res = await watchRequest("GET");
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.channelId).toBe("channel_id");
+			expect(data.resourceId).toBe("resource_id");
+			expect(data.remainingMs).toBeGreaterThan(0);
+			expect(data.expired).toBe(false);
+		});
+
+		test("should return 404 without a channel", async () => {
+			expect((await watchRequest("GET")).status).toBe(404);
+			expect((await watchRequest("DELETE")).status).toBe(404);
+			expect((await watchRequest("POST", "/drive/watch/renew")).status).toBe(
+				404,
+			);
+		});
+
+		test("should stop the channel and clear its metadata", async () => {
+			await seedChannel(mockEnv);
+
+			const res = await watchRequest("DELETE");
+
+			expect(res.status).toBe(200);
+			expect(driveCalls()).toContain(
+				"https://www.googleapis.com/drive/v3/channels/stop",
+			);
+			expect(await mockEnv.drive_kv.get("driveChannelId")).toBeNull();
+			expect(await mockEnv.drive_kv.get("driveWebhookToken")).toBeNull();
+			expect(await mockEnv.drive_kv.get("channel:channel_id")).toBeNull();
+		});
+
+		test("should reach Google on every create and stop", async () => {
+			const caches = mockCaches();
+			const create = () =>
+				app.fetch(
+					new Request("http://localhost/drive/watch", {
+						method: "POST",
+						headers: {
+							"Content-Type": "application/json",
+							Authorization: "Bearer test_auth_key",
+						},
+						body: JSON.stringify({
+							access_token: "test_access_token",
+							drive_start_page_token: "test_start_token",
+							worker_drive_webhook_url: "https://example.com/webhook",
+						}),
+					}),
+					mockEnv,
+					caches.ctx,
 				);
-			}) as any;
 
-			const req = new Request("http://localhost/drive/download", {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-					Authorization: "Bearer test_auth_key",
-				},
-				body: JSON.stringify({
-					access_token: "test_token",
-					file_name: "test.pdf",
-					drive_start_page_token: "token123",
+			try {
+				expect((await create()).status).toBe(200);
+
+				// The create answer carries the webhook token
+				const anonymous = await app.fetch(
+					new Request("http://localhost/drive/watch"),
+					mockEnv,
+					caches.ctx,
+				);
+				expect(anonymous.status).toBe(401);
+
+				expect((await watchRequest("DELETE", undefined, caches.ctx)).status).toBe(
+					200,
+				);
+				expect((await watchRequest("DELETE", undefined, caches.ctx)).status).toBe(
+					404,
+				);
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
+
+		test("should keep the metadata when Google refuses to stop", async () => {
+			await seedChannel(mockEnv);
+			mockFetch(() =>
+				Promise.resolve(new Response("backend error", { status: 500 })),
+			);
+
+			const res = await watchRequest("DELETE");
+
+			expect(res.status).toBe(502);
+			expect(await mockEnv.drive_kv.get("driveChannelId")).toBe("channel_id");
+		});
+
+		test("should force a renewal", async () => {
+			await seedChannel(mockEnv);
+			await mockEnv.drive_kv.put("channel_message:channel_id", "7");
+			await mockEnv.drive_kv.put("drive_start_page_token", "page_token");
+			await mockEnv.drive_kv.put(
+				"worker_drive_webhook_url",
+				"https://example.com/drive/webhook",
+			);
+
+			const res = await watchRequest("POST", "/drive/watch/renew");
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.channelId).not.toBe("channel_id");
+			expect(data.resourceId).toBe("mock_resource_id");
+			expect(drive.watchChanges).toHaveBeenCalled();
+			expect(await mockEnv.drive_kv.get("driveChannelId")).toBe(data.channelId);
+			expect(await mockEnv.drive_kv.get("channel:channel_id")).toBeNull();
+			expect(
+				await mockEnv.drive_kv.get("channel_message:channel_id"),
+			).toBeNull();
+			expect(
+				await mockEnv.drive_kv.get(`channel:${data.channelId}`),
+			).not.toBeNull();
+		});
+
+		test("should create a new channel on every renewal", async () => {
+			const caches = mockCaches();
+			await seedChannel(mockEnv);
+			await mockEnv.drive_kv.put("drive_start_page_token", "page_token");
+			await mockEnv.drive_kv.put(
+				"worker_drive_webhook_url",
+				"https://example.com/drive/webhook",
+			);
+
+			try {
+				const renew = () =>
+					watchRequest("POST", "/drive/watch/renew", caches.ctx);
+				const first = await (await renew()).json();
+				const second = await (await renew()).json();
+
+				expect(second.channelId).not.toBe(first.channelId);
+				expect(await mockEnv.drive_kv.get("driveChannelId")).toBe(
+					second.channelId,
+				);
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
+
+		test("should refuse to renew without the webhook URL", async () => {
+			await seedChannel(mockEnv);
+
+			const res = await watchRequest("POST", "/drive/watch/renew");
+
+			expect(res.status).toBe(409);
+			expect((await res.json()).reason).toBe("missing_metadata");
+		});
+	});
+
+	describe("Single-file watches", () => {
+		const request = (
+			method: string,
+			path: string,
+			body?: unknown,
+			ctx?: ExecutionContext,
+		) =>
+			app.fetch(
+				new Request(`http://localhost${path}`, {
+					method,
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: body ? JSON.stringify(body) : undefined,
 				}),
-			});
+				mockEnv,
+				ctx,
+			);
 
-			const res = await app.fetch(req, mockEnv);
+		const seedFileWatch = async () => {
+			await mockEnv.drive_kv.put(
+				"file_watches",
+				JSON.stringify([
+					{
+						fileId: "sheet_id",
+						channelId: "file_channel",
+						resourceId: "file_resource",
+						webhookToken: "file_token",
+						webhookUrl: "https://example.com/drive/webhook",
+						expiration: Date.now() + 3600000,
+						createdAt: 0,
+					},
+				]),
+			);
+			await mockEnv.drive_kv.put(
+				"channel:file_channel",
+				JSON.stringify({
+					accountId: "default",
+					kind: "file",
+					fileId: "sheet_id",
+				}),
+			);
+		};
+
+		const filePush = (token = "file_token") =>
+			app.fetch(
+				new Request("http://localhost/drive/webhook", {
+					method: "POST",
+					headers: {
+						"X-Goog-Resource-State": "update",
+						"X-Goog-Channel-ID": "file_channel",
+						"X-Goog-Channel-Token": token,
+						"X-Goog-Resource-ID": "file_resource",
+						"X-Goog-Message-Number": "2",
+						"X-Goog-Changed": "content,properties",
+					},
+				}),
+				mockEnv,
+			);
+
+		test("should create a files.watch channel", async () => {
+			fetchMock = mockFetch(() =>
+				Promise.resolve(
+					new Response(JSON.stringify({ resourceId: "file_resource" })),
+				),
+			);
+
+			const res = await request("POST", "/drive/files/sheet_id/watch", {
+				worker_drive_webhook_url: "https://example.com/drive/webhook",
+			});
+			const data = await res.json();
 
 			expect(res.status).toBe(200);
-			expect(res.headers.get("Content-Type")).toBe("application/pdf");
-			expect(res.headers.get("Content-Disposition")).toContain("test.pdf");
+			expect(data.watch.fileId).toBe("sheet_id");
+			expect(data.watch.resourceId).toBe("file_resource");
+			expect(data.watch.webhookToken).toBeUndefined();
+
+			const url = fetchMock.mock
+				.calls[0]![0];
+			expect(url).toStartWith(
+				"https://www.googleapis.com/drive/v3/files/sheet_id/watch",
+			);
+			const channel = await mockEnv.drive_kv.get(
+				`channel:${data.watch.channelId}`,
+			);
+			expect(JSON.parse(channel!)).toEqual({
+				accountId: "default",
+				kind: "file",
+				fileId: "sheet_id",
+			});
 		});
 
-		test("should return 404 if file not found", async () => {
-			global.fetch = mock(() =>
+		test("should stop a file watch right after creating it", async () => {
+			const caches = mockCaches();
+			fetchMock = mockFetch(() =>
 				Promise.resolve(
-					new Response(JSON.stringify({ changes: [] }), { status: 200 }),
+					new Response(JSON.stringify({ resourceId: "file_resource" })),
 				),
-			) as any;
+			);
 
-			const req = new Request("http://localhost/drive/download", {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-					Authorization: "Bearer test_auth_key",
+			try {
+				const created = await request(
+					"POST",
+					"/drive/files/sheet_id/watch",
+					{ worker_drive_webhook_url: "https://example.com/drive/webhook" },
+					caches.ctx,
+				);
+				expect(created.status).toBe(200);
+
+				const res = await request(
+					"DELETE",
+					"/drive/files/sheet_id/watch",
+					undefined,
+					caches.ctx,
+				);
+
+				expect(res.status).toBe(200);
+				expect((await res.json()).message).not.toBe("File watch created");
+				expect(
+					JSON.parse((await mockEnv.drive_kv.get("file_watches"))!),
+				).toEqual([]);
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
+
+		test("should need a webhook URL", async () => {
+			const res = await request("POST", "/drive/files/sheet_id/watch", {});
+
+			expect(res.status).toBe(409);
+		});
+
+		test("should handle file notifications apart from the change feed", async () => {
+			await seedFileWatch();
+
+			const res = await filePush();
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.message).toBe("File notification queued");
+			expect(data.fileId).toBe("sheet_id");
+			expect(data.state).toBe("update");
+			expect((mockEnv.CHANGE_QUEUE as unknown as MockQueue).sent).toEqual([
+				{
+					kind: "file_watch",
+					accountId: "default",
+					channelId: "file_channel",
+					fileId: "sheet_id",
+					state: "update",
+					changed: ["content", "properties"],
+					receivedAt: expect.any(Number),
 				},
-				body: JSON.stringify({
-					access_token: "test_token",
-					file_name: "nonexistent.pdf",
-					drive_start_page_token: "token123",
-				}),
+			]);
+		});
+
+		test("should notify only the file channel's account", async () => {
+			await seedFileWatch();
+			const own = await createSubscription(mockEnv, {
+				url: "https://subscriber.example.com/default",
+				secret: "secret_123",
 			});
+			await createSubscription(
+				mockEnv,
+				{ url: "https://subscriber.example.com/team_b", secret: "secret_123" },
+				"team_b",
+			);
 
-			const res = await app.fetch(req, mockEnv);
+			await filePush();
+			const [message] = await drainQueue(mockEnv);
+
+			expect(message?.ack).toHaveBeenCalled();
+			const queued = (mockEnv.CHANGE_QUEUE as unknown as MockQueue).sent;
+			expect(queued).toEqual([
+				expect.objectContaining({
+					kind: "delivery",
+					accountId: "default",
+					subscriptionId: own.id,
+					event: "file_watch.update",
+				}),
+			]);
+		});
 
-			expect(res.status).toBe(404);
+		test("should verify file channels against their own token", async () => {
+			await seedFileWatch();
+			await seedChannel(mockEnv);
+
+			const res = await filePush("valid_token");
+
+			expect(res.status).toBe(401);
 		});
 
-		test("should reject request with missing fields", async () => {
-			const req = new Request("http://localhost/drive/download", {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-					Authorization: "Bearer test_auth_key",
-				},
-				body: JSON.stringify({
-					access_token: "test_token",
+		test("should list and stop file watches", async () => {
+			await seedFileWatch();
+
+			const list = await (
+				await request("GET", "/drive/files/watched")
+			).json();
+			expect(list.watches).toHaveLength(1);
+			expect(list.watches[0].webhookToken).toBeUndefined();
+
+			const res = await request("DELETE", "/drive/files/sheet_id/watch");
+
+			expect(res.status).toBe(200);
+			expect(await mockEnv.drive_kv.get("channel:file_channel")).toBeNull();
+			expect(JSON.parse((await mockEnv.drive_kv.get("file_watches"))!)).toEqual(
+				[],
+			);
+			expect(
+				(await request("DELETE", "/drive/files/sheet_id/watch")).status,
+			).toBe(404);
+		});
+	});
+
+	describe("Watched folders", () => {
+		const registerFolder = (
+			body: Record<string, unknown>,
+			ctx?: ExecutionContext,
+		) =>
+			app.fetch(
+				new Request("http://localhost/drive/folders/watched", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify(body),
+				}),
+				mockEnv,
+				ctx,
+			);
+
+		const listFolders = async (ctx?: ExecutionContext) =>
+			(
+				await app.fetch(
+					new Request("http://localhost/drive/folders/watched", {
+						headers: { Authorization: "Bearer test_auth_key" },
+					}),
+					mockEnv,
+					ctx,
+				)
+			).json();
+
+		const removeFolder = (folderId: string, ctx?: ExecutionContext) =>
+			app.fetch(
+				new Request(`http://localhost/drive/folders/watched/${folderId}`, {
+					method: "DELETE",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
 				}),
+				mockEnv,
+				ctx,
+			);
+
+		test("should register several folders with their configuration", async () => {
+			const res = await registerFolder({
+				folder_id: "folder_a",
+				label: "Invoices",
+				filters: { mime_types: ["application/pdf"], name_pattern: "^INV-" },
 			});
+			const data = await res.json();
 
-			const res = await app.fetch(req, mockEnv);
+			expect(res.status).toBe(200);
+			expect(data.folder.label).toBe("Invoices");
+			expect(data.folder.filters.mimeTypes).toEqual(["application/pdf"]);
+
+			await registerFolder({ folder_id: "folder_b" });
+
+			const { folders } = await listFolders();
+			expect(folders.map((f: { id: string }) => f.id)).toEqual([
+				"folder_a",
+				"folder_b",
+			]);
+		});
+
+		test("should register and remove every folder past the route cache", async () => {
+			const caches = mockCaches();
+
+			try {
+				expect((await registerFolder({ folder_id: "f1" }, caches.ctx)).status).toBe(200);
+				const second = await registerFolder({ folder_id: "f2" }, caches.ctx);
+				expect((await second.json()).folder.id).toBe("f2");
+
+				const { folders } = await listFolders(caches.ctx);
+				expect(folders.map((f: { id: string }) => f.id)).toEqual(["f1", "f2"]);
+
+				expect((await removeFolder("f1", caches.ctx)).status).toBe(200);
+				expect((await removeFolder("f1", caches.ctx)).status).toBe(404);
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
+
+		test("should reject an invalid name pattern", async () => {
+			const res = await registerFolder({
+				folder_id: "folder_a",
+				filters: { name_pattern: "([" },
+			});
 
 			expect(res.status).toBe(400);
 		});
 
-		test("should use stored configuration if optional params are missing", async () => {
-			await mockEnv.drive_kv.put("drive_start_page_token", "stored_page_token");
-			// access_token mocked via getValidAccessToken
-
-			global.fetch = mock((url: string) => {
-				if (url.includes("/changes?")) {
-					return Promise.resolve(
-						new Response(
-							JSON.stringify({
-								changes: [
-									{
-										file: {
-											id: "file123",
-											name: "test.pdf",
-											mimeType: "application/pdf",
-										},
-									},
-								],
-							}),
-							{ status: 200 },
-						),
-					);
-				}
-				return Promise.resolve(
-					new Response(new Blob(["file content"]), { status: 200 }),
-				);
-			}) as any;
+		test("should register a recursive folder with a depth limit", async () => {
+			const res = await registerFolder({
+				folder_id: "folder_a",
+				recursive: true,
+				max_depth: 3,
+			});
+			const data = await res.json();
 
-			const req = new Request("http://localhost/drive/download", {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-					Authorization: "Bearer test_auth_key",
-				},
-				body: JSON.stringify({
-					file_name: "test.pdf",
-				}),
+			expect(res.status).toBe(200);
+			expect(data.folder).toMatchObject({ recursive: true, maxDepth: 3 });
+
+			const invalid = await registerFolder({
+				folder_id: "folder_a",
+				recursive: true,
+				max_depth: 0,
 			});
+			expect(invalid.status).toBe(400);
+		});
 
-			const res = await app.fetch(req, mockEnv);
+		test("should reject unknown destinations", async () => {
+			const res = await registerFolder({
+				folder_id: "folder_a",
+				destinations: ["missing_subscription"],
+			});
+			const data = await res.json();
+
+			expect(res.status).toBe(400);
+			expect(data.unknown).toEqual(["missing_subscription"]);
+		});
+
+		test("should remove a watched folder", async () => {
+			await registerFolder({ folder_id: "folder_a" });
+
+			const res = await removeFolder("folder_a");
 
 			expect(res.status).toBe(200);
-			expect(res.headers.get("Content-Type")).toBe("application/pdf");
+			expect((await listFolders()).folders).toEqual([]);
+		});
+
+		test("should keep existing folders when the webhook names a new one", async () => {
+			await registerFolder({ folder_id: "folder_a" });
+			await seedChannel(mockEnv);
+
+			const res = await app.fetch(
+				new Request("http://localhost/drive/webhook", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						"X-Goog-Resource-State": "change",
+						"X-Goog-Channel-ID": "channel_id",
+						"X-Goog-Channel-Token": "valid_token",
+						"X-Goog-Resource-ID": "resource_id",
+						"X-Goog-Message-Number": "2",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify({
+						drive_folder_id: "folder_b",
+						access_token: "test_access_token",
+						drive_start_page_token: "test_start_token",
+					}),
+				}),
+				mockEnv,
+			);
+
+			expect(res.status).toBe(200);
+
+			const { folders } = await listFolders();
+			expect(folders.map((f: { id: string }) => f.id)).toEqual([
+				"folder_a",
+				"folder_b",
+			]);
 		});
 	});
 
-	describe("Authentication", () => {
-		test("should reject requests without bearer token", async () => {
-			const req = new Request("http://localhost/oauth/url", {
+	describe("Multiple accounts", () => {
+		test("should store watch channel metadata under the account namespace", async () => {
+			const req = new Request("http://localhost/drive/watch", {
 				method: "POST",
 				headers: {
 					"Content-Type": "application/json",
+					Authorization: "Bearer test_auth_key",
 				},
 				body: JSON.stringify({
-					client_id: "test",
-					client_secret: "test",
-					redirect_uris: ["http://localhost"],
+					account_id: "team_b",
+					access_token: "test_access_token",
+					drive_start_page_token: "test_start_token",
+					worker_drive_webhook_url: "https://example.com/webhook",
 				}),
 			});
 
 			const res = await app.fetch(req, mockEnv);
+			const data = await res.json();
 
-			expect(res.status).toBe(401);
+			expect(res.status).toBe(200);
+			expect(data.accountId).toBe("team_b");
+			expect(
+				await mockEnv.drive_kv.get("account:team_b:driveChannelId"),
+			).toBe(data.channelId);
+			expect(await mockEnv.drive_kv.get("driveChannelId")).toBeNull();
+			expect(
+				JSON.parse((await mockEnv.drive_kv.get(`channel:${data.channelId}`))!),
+			).toEqual({ accountId: "team_b", kind: "changes" });
+			expect(JSON.parse((await mockEnv.drive_kv.get("accounts"))!)).toEqual([
+				"default",
+				"team_b",
+			]);
 		});
 
-		test("should reject requests with invalid bearer token", async () => {
-			const req = new Request("http://localhost/oauth/url", {
+		test("should reject an invalid account ID", async () => {
+			const req = new Request("http://localhost/drive/watch", {
 				method: "POST",
 				headers: {
 					"Content-Type": "application/json",
-					Authorization: "Bearer invalid_token",
+					Authorization: "Bearer test_auth_key",
 				},
 				body: JSON.stringify({
-					client_id: "test",
-					client_secret: "test",
-					redirect_uris: ["http://localhost"],
+					account_id: "../other",
+					worker_drive_webhook_url: "https://example.com/webhook",
 				}),
 			});
 
 			const res = await app.fetch(req, mockEnv);
 
-			expect(res.status).toBe(401);
+			expect(res.status).toBe(400);
+		});
+
+		test("should resolve the webhook account from the channel ID", async () => {
+			await seedChannel(mockEnv, { token: "default_token" });
+			await seedChannel(mockEnv, {
+				accountId: "team_b",
+				channelId: "channel_b",
+				resourceId: "resource_b",
+				token: "b_token",
+			});
+			await mockEnv.drive_kv.put("account:team_b:accessToken", "b_access");
+			await mockEnv.drive_kv.put(
+				"account:team_b:drive_start_page_token",
+				"b_page_token",
+			);
+			await mockEnv.drive_kv.put(
+				"account:team_b:watched_folders",
+				JSON.stringify([{ id: "folder_b", createdAt: 0 }]),
+			);
+
+			const send = (token: string, messageNumber: string) =>
+				app.fetch(
+					new Request("http://localhost/drive/webhook", {
+						method: "POST",
+						headers: {
+							"X-Goog-Resource-State": "change",
+							"X-Goog-Channel-ID": "channel_b",
+							"X-Goog-Channel-Token": token,
+							"X-Goog-Resource-ID": "resource_b",
+							"X-Goog-Message-Number": messageNumber,
+						},
+					}),
+					mockEnv,
+				);
+
+			// Another account's token must not validate this channel
+			expect((await send("default_token", "2")).status).toBe(401);
+
+			const res = await send("b_token", "3");
+			expect(res.status).toBe(200);
+
+			await drainQueue(mockEnv);
+			expect(helpers.getValidAccessToken).toHaveBeenLastCalledWith(
+				mockEnv,
+				"team_b",
+			);
+			expect(helpers.fetchAndLogChanges).toHaveBeenLastCalledWith(
+				mockEnv,
+				"mock_valid_token",
+				[{ id: "folder_b", createdAt: 0 }],
+				"b_page_token",
+				"team_b",
+				expect.any(Function),
+			);
+		});
+	});
+
+	describe("Header-only Drive notifications", () => {
+		beforeEach(async () => {
+			await seedChannel(mockEnv);
+			await mockEnv.drive_kv.put("drive_start_page_token", "stored_page_token");
+			await mockEnv.drive_kv.put("drive_folder_id", "stored_folder_id");
+		});
+
+		const googlePush = (init: RequestInit = {}) =>
+			new Request("http://localhost/drive/webhook", {
+				method: "POST",
+				...init,
+				headers: {
+					"X-Goog-Resource-State": "change",
+					"X-Goog-Channel-ID": "channel_id",
+					"X-Goog-Channel-Token": "valid_token",
+					"X-Goog-Resource-ID": "resource_id",
+					"X-Goog-Message-Number": "2",
+					...init.headers,
+				},
+			});
+
+		test("should queue a genuine push without a body", async () => {
+			const res = await app.fetch(googlePush(), mockEnv);
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.message).toBe("Change queued");
+
+			await drainQueue(mockEnv);
+			expect(helpers.fetchAndLogChanges).toHaveBeenLastCalledWith(
+				mockEnv,
+				"mock_valid_token",
+				[{ id: "stored_folder_id", createdAt: 0 }],
+				"stored_page_token",
+				"default",
+				expect.any(Function),
+			);
+		});
+
+		test("should reject an override body without bearer authentication", async () => {
+			const res = await app.fetch(
+				googlePush({
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify({ drive_start_page_token: "injected" }),
+				}),
+				mockEnv,
+			);
+
+			expect(res.status).toBe(401);
+			expect(await mockEnv.drive_kv.get("drive_start_page_token")).toBe(
+				"stored_page_token",
+			);
+		});
+
+		test("should reject a malformed override body", async () => {
+			const res = await app.fetch(
+				googlePush({
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: "{not json",
+				}),
+				mockEnv,
+			);
+
+			expect(res.status).toBe(400);
+		});
+	});
+
+	describe("Notification verification", () => {
+		beforeEach(async () => {
+			await seedChannel(mockEnv);
+			await mockEnv.drive_kv.put("drive_start_page_token", "stored_page_token");
+			await mockEnv.drive_kv.put("drive_folder_id", "stored_folder_id");
+		});
+
+		const push = (headers: Record<string, string> = {}) =>
+			app.fetch(
+				new Request("http://localhost/drive/webhook", {
+					method: "POST",
+					headers: {
+						"X-Goog-Resource-State": "change",
+						"X-Goog-Channel-ID": "channel_id",
+						"X-Goog-Channel-Token": "valid_token",
+						"X-Goog-Resource-ID": "resource_id",
+						"X-Goog-Message-Number": "5",
+						...headers,
+					},
+				}),
+				mockEnv,
+			);
+
+		const expectRejected = async (res: Response, reason: string) => {
+			expect(res.status).toBe(401);
+			expect((await res.json()).reason).toBe(reason);
+		};
+
+		test("should reject notifications with missing headers", async () => {
+			await expectRejected(
+				await push({ "X-Goog-Message-Number": "" }),
+				"missing_headers",
+			);
+		});
+
+		test("should reject unknown or stale channels", async () => {
+			await expectRejected(
+				await push({ "X-Goog-Channel-ID": "old_channel" }),
+				"unknown_channel",
+			);
+		});
+
+		test("should reject a mismatched resource ID", async () => {
+			await expectRejected(
+				await push({ "X-Goog-Resource-ID": "other_resource" }),
+				"resource_mismatch",
+			);
+		});
+
+		test("should reject expired channels", async () => {
+			await seedChannel(mockEnv, { expiration: Date.now() - 1000 });
+
+			await expectRejected(await push(), "channel_expired");
+		});
+
+		test("should drop duplicate and replayed message numbers", async () => {
+			const queued = () =>
+				(mockEnv.CHANGE_QUEUE as unknown as MockQueue).sent.length;
+
+			expect((await push()).status).toBe(200);
+			expect(queued()).toBe(1);
+
+			for (const messageNumber of ["5", "4"]) {
+				const res = await push({ "X-Goog-Message-Number": messageNumber });
+				const data = await res.json();
+
+				expect(res.status).toBe(200);
+				expect(data.reason).toBe("replayed_message");
+			}
+
+			expect(queued()).toBe(1);
+
+			const next = await push({ "X-Goog-Message-Number": "6" });
+			expect((await next.json()).message).toBe("Change queued");
+			expect(queued()).toBe(2);
+		});
+	});
+
+	describe("Change queue", () => {
+		const job = (accountId = "default"): ChangeJob => ({
+			accountId,
+			channelId: "channel_id",
+			messageNumber: 2,
+			receivedAt: Date.now(),
+		});
+
+		const authorized = (path: string, method = "GET", body?: unknown) =>
+			app.fetch(
+				new Request(`http://localhost${path}`, {
+					method,
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: body ? JSON.stringify(body) : undefined,
+				}),
+				mockEnv,
+			);
+
+		beforeEach(async () => {
+			await mockEnv.drive_kv.put("drive_start_page_token", "stored_page_token");
+			await mockEnv.drive_kv.put("drive_folder_id", "stored_folder_id");
+		});
+
+		test("should enqueue verified pushes with their channel details", async () => {
+			await seedChannel(mockEnv);
+
+			const res = await app.fetch(
+				new Request("http://localhost/drive/webhook", {
+					method: "POST",
+					headers: {
+						"X-Goog-Resource-State": "change",
+						"X-Goog-Channel-ID": "channel_id",
+						"X-Goog-Channel-Token": "valid_token",
+						"X-Goog-Resource-ID": "resource_id",
+						"X-Goog-Message-Number": "7",
+					},
+				}),
+				mockEnv,
+			);
+
+			expect(res.status).toBe(200);
+			expect((mockEnv.CHANGE_QUEUE as unknown as MockQueue).sent).toEqual([
+				{
+					accountId: "default",
+					channelId: "channel_id",
+					messageNumber: 7,
+					receivedAt: expect.any(Number),
+				},
+			]);
+		});
+
+		test("should run once per account and ack every message", async () => {
+			const calls = () =>
+				(helpers.fetchAndLogChanges as ReturnType<typeof mock>).mock.calls
+					.length;
+			const before = calls();
+
+			const messages = await deliverBatch(mockEnv, [job(), job(), job()]);
+
+			expect(calls() - before).toBe(1);
+			for (const message of messages) {
+				expect(message.ack).toHaveBeenCalled();
+			}
+		});
+
+		test("should retry with backoff when Drive fails", async () => {
+			(
+				helpers.fetchAndLogChanges as ReturnType<typeof mock>
+			).mockImplementationOnce(() => Promise.resolve("Drive API error"));
+
+			const [message] = await deliverBatch(mockEnv, [job()]);
+
+			expect(message.ack).not.toHaveBeenCalled();
+			expect(message.retry).toHaveBeenCalledWith({ delaySeconds: 30 });
+		});
+
+		test("should attempt queued deliveries without walking changes", async () => {
+			const calls = () =>
+				(helpers.fetchAndLogChanges as ReturnType<typeof mock>).mock.calls
+					.length;
+			const before = calls();
+			fetchMock = mockFetch(() => new Response("OK"));
+
+			await createSubscription(
+				mockEnv,
+				{ url: "https://subscriber.example.com/hook", secret: "secret_123" },
+				"team_b",
+			);
+			const [delivery] = await deliverToSubscribers(
+				mockEnv,
+				"team_b",
+				"file.uploaded",
+				{},
+			);
+			const [message] = await drainQueue(mockEnv);
+
+			expect(message?.body).toEqual(delivery);
+			expect(message?.ack).toHaveBeenCalled();
+			expect(calls()).toBe(before);
+			expect(fetchMock.mock.calls[0]?.[0]).toBe(
+				"https://subscriber.example.com/hook",
+			);
+		});
+
+		test("should park dead letters and requeue them on demand", async () => {
+			await deliverBatch(mockEnv, [job("team_b")], "drive-changes-dlq");
+
+			const listed = await (
+				await authorized("/jobs/dead?account_id=team_b")
+			).json();
+			expect(listed.jobs).toHaveLength(1);
+			expect(listed.jobs[0]).toMatchObject({
+				id: "msg_0",
+				job: { accountId: "team_b" },
+				attempts: 1,
+			});
+
+			// Other accounts neither see nor requeue the job
+			expect((await (await authorized("/jobs/dead")).json()).jobs).toEqual([]);
+			const foreign = await authorized("/jobs/dead/msg_0/requeue", "POST", {
+				account_id: "default",
+			});
+			expect(foreign.status).toBe(404);
+
+			const res = await authorized("/jobs/dead/msg_0/requeue", "POST", {
+				account_id: "team_b",
+			});
+
+			expect(res.status).toBe(200);
+			expect((mockEnv.CHANGE_QUEUE as unknown as MockQueue).sent).toEqual([
+				listed.jobs[0].job,
+			]);
+			expect(
+				(await (await authorized("/jobs/dead?account_id=team_b")).json()).jobs,
+			).toEqual([]);
+		});
+
+		test("should return 404 when requeueing an unknown job", async () => {
+			const res = await authorized("/jobs/dead/missing/requeue", "POST", {});
+
+			expect(res.status).toBe(404);
+		});
+	});
+
+	describe("POST /drive/download", () => {
+		const download = (
+			body: Record<string, unknown>,
+			headers = {},
+			ctx?: ExecutionContext,
+		) =>
+			app.fetch(
+				new Request("http://localhost/drive/download", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+						...headers,
+					},
+					body: JSON.stringify(body),
+				}),
+				mockEnv,
+				ctx,
+			);
+
+		// Drive answers metadata lookups with `file` and media/export with bytes
+		const driveFile = (file: Record<string, string>, init?: ResponseInit) =>
+			mockFetch((url: string, _init?: RequestInit) => {
+				if (url.includes("alt=media") || url.includes("/export?")) {
+					return Promise.resolve(new Response("file content", init));
+				}
+				return Promise.resolve(new Response(JSON.stringify(file)));
+			});
+
+		test("should stream a file by ID", async () => {
+			const fetchMock = driveFile({
+				id: "file123",
+				name: "report.pdf",
+				mimeType: "application/pdf",
+			});
+
+			const res = await download({
+				access_token: "test_token",
+				file_id: "file123",
+			});
+
+			expect(res.status).toBe(200);
+			expect(await res.text()).toBe("file content");
+			expect(res.headers.get("Content-Type")).toBe("application/pdf");
+			expect(res.headers.get("Content-Disposition")).toContain("report.pdf");
+			expect(fetchMock.mock.calls[1][0]).toContain("/files/file123?alt=media");
+		});
+
+		test("should never replay a cached download for another body", async () => {
+			const caches = mockCaches();
+			mockFetch((url: string) => {
+				const id = new URL(url).pathname.split("/").pop();
+				return url.includes("alt=media")
+					? new Response(`content of ${id}`)
+					: new Response(
+							JSON.stringify({ id, name: `${id}.txt`, mimeType: "text/plain" }),
+						);
+			});
+
+			try {
+				const first = await download({ file_id: "file_a" }, {}, caches.ctx);
+				const second = await download({ file_id: "file_b" }, {}, caches.ctx);
+
+				expect(await first.text()).toBe("content of file_a");
+				expect(await second.text()).toBe("content of file_b");
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
+
+		test("should forward Range and pass partial content through", async () => {
+			const fetchMock = driveFile(
+				{ id: "file123", name: "video.mp4", mimeType: "video/mp4" },
+				{
+					status: 206,
+					headers: {
+						"Content-Range": "bytes 0-3/12",
+						"Content-Length": "4",
+					},
+				},
+			);
+
+			const res = await download(
+				{ access_token: "test_token", file_id: "file123" },
+				{ Range: "bytes=0-3" },
+			);
+
+			const init = fetchMock.mock.calls[1][1];
+			expect(new Headers(init?.headers).get("Range")).toBe("bytes=0-3");
+			expect(res.status).toBe(206);
+			expect(res.headers.get("Content-Range")).toBe("bytes 0-3/12");
+		});
+
+		test("should look a file up by name in the watched folders", async () => {
+			await mockEnv.drive_kv.put(
+				"watched_folders",
+				JSON.stringify([{ id: "folder_a", createdAt: 0 }]),
+			);
+
+			const fetchMock = mockFetch((url: string) => {
+				if (url.includes("alt=media")) {
+					return Promise.resolve(new Response("file content"));
+				}
+				return Promise.resolve(
+					new Response(
+						JSON.stringify({
+							files: [
+								{
+									id: "file123",
+									name: "test.pdf",
+									mimeType: "application/pdf",
+								},
+							],
+						}),
+					),
+				);
+			});
+
+			const res = await download({ file_name: "test.pdf" });
+
+			expect(res.status).toBe(200);
+			const query = new URL(fetchMock.mock.calls[0][0]).searchParams.get("q");
+			expect(query).toBe(
+				"name = 'test.pdf' and ('folder_a' in parents) and trashed = false",
+			);
+		});
+
+		test("should export Google Docs as PDF by default", async () => {
+			const fetchMock = driveFile({
+				id: "doc123",
+				name: "Notes",
+				mimeType: "application/vnd.google-apps.document",
+			});
+
+			const res = await download({
+				access_token: "test_token",
+				file_id: "doc123",
+			});
+
+			expect(res.status).toBe(200);
+			expect(res.headers.get("Content-Type")).toBe("application/pdf");
+			expect(res.headers.get("Content-Disposition")).toContain("Notes.pdf");
+			expect(fetchMock.mock.calls[1][0]).toContain(
+				"/files/doc123/export?mimeType=application%2Fpdf",
+			);
+		});
+
+		test("should export Sheets to a requested format", async () => {
+			driveFile({
+				id: "sheet123",
+				name: "Budget",
+				mimeType: "application/vnd.google-apps.spreadsheet",
+			});
+
+			const res = await download({
+				access_token: "test_token",
+				file_id: "sheet123",
+				format: "csv",
+			});
+
+			expect(res.status).toBe(200);
+			expect(res.headers.get("Content-Type")).toBe("text/csv");
+		});
+
+		test("should reject formats the file cannot be exported to", async () => {
+			driveFile({
+				id: "doc123",
+				name: "Notes",
+				mimeType: "application/vnd.google-apps.document",
+			});
+
+			const res = await download({
+				access_token: "test_token",
+				file_id: "doc123",
+				format: "xlsx",
+			});
+			const data = await res.json();
+
+			expect(res.status).toBe(400);
+			expect(data.message).toContain("supported: pdf, docx");
+		});
+
+		test("should return 404 if file not found", async () => {
+			mockFetch(() =>
+				Promise.resolve(new Response(JSON.stringify({ files: [] }))),
+			);
+
+			const res = await download({
+				access_token: "test_token",
+				file_name: "nonexistent.pdf",
+				folder_id: "folder_a",
+			});
+
+			expect(res.status).toBe(404);
+		});
+
+		test("should reject request with missing fields", async () => {
+			const res = await download({ access_token: "test_token" });
+
+			expect(res.status).toBe(400);
+		});
+	});
+
+	describe("POST /secrets/reseal", () => {
+		const reseal = (ctx?: ExecutionContext) =>
+			app.fetch(
+				new Request("http://localhost/secrets/reseal", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+				}),
+				mockEnv,
+				ctx,
+			);
+
+		test("should encrypt plaintext credentials", async () => {
+			await mockEnv.drive_kv.put("refreshToken", "plain_refresh");
+
+			const res = await reseal();
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.migrated).toBe(1);
+			expect(await mockEnv.drive_kv.get("refreshToken")).toStartWith(
+				"enc:v1:",
+			);
+		});
+
+		test("should reseal again on every call", async () => {
+			const caches = mockCaches();
+			await mockEnv.drive_kv.put("refreshToken", "plain_refresh");
+
+			try {
+				expect((await (await reseal(caches.ctx)).json()).migrated).toBe(1);
+
+				await mockEnv.drive_kv.put("accessToken", "plain_access");
+				const data = await (await reseal(caches.ctx)).json();
+
+				expect(data).toMatchObject({ migrated: 1, unchanged: 1 });
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
+
+		test("should reach the client secret of an account still authorizing", async () => {
+			await app.fetch(
+				new Request("http://localhost/oauth/url", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify({
+						account_id: "team_c",
+						client_id: "test_client_id",
+						client_secret: "test_client_secret",
+						redirect_uris: ["http://localhost/oauth/callback"],
+					}),
+				}),
+				mockEnv,
+			);
+			// Stored before encryption at rest existed
+			await mockEnv.drive_kv.put(
+				"account:team_c:client_secret",
+				"test_client_secret",
+			);
+
+			const data = await (await reseal()).json();
+
+			expect(data.migrated).toBe(1);
+			expect(
+				await mockEnv.drive_kv.get("account:team_c:client_secret"),
+			).toStartWith("enc:v1:");
+		});
+
+		test("should require authentication", async () => {
+			const res = await app.fetch(
+				new Request("http://localhost/secrets/reseal", {
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+				}),
+				mockEnv,
+			);
+
+			expect(res.status).toBe(401);
+		});
+	});
+
+	describe("GET /drive/changes", () => {
+		const history = (query = "") =>
+			app.fetch(
+				new Request(`http://localhost/drive/changes${query}`, {
+					headers: { Authorization: "Bearer test_auth_key" },
+				}),
+				mockEnv,
+			);
+
+		test("should return 503 without a history database", async () => {
+			const res = await history();
+
+			expect(res.status).toBe(503);
+		});
+
+		test("should reject unknown event types and bad timestamps", async () => {
+			expect((await history("?type=deleted")).status).toBe(400);
+			expect((await history("?since=last-tuesday")).status).toBe(400);
+			expect((await history("?limit=500")).status).toBe(400);
+		});
+	});
+
+	describe("GET /mirror/status", () => {
+		test("should report mirror totals for the account", async () => {
+			await mockEnv.drive_kv.put(
+				"account:team_b:mirror_status",
+				JSON.stringify({ mirrored: 3, skipped: 1, failed: 0 }),
+			);
+
+			const res = await app.fetch(
+				new Request("http://localhost/mirror/status?account_id=team_b", {
+					headers: { Authorization: "Bearer test_auth_key" },
+				}),
+				mockEnv,
+			);
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data).toEqual({
+				enabled: false,
+				keyTemplate: "{folderId}/{path}{name}@{revision}",
+				mirrored: 3,
+				skipped: 1,
+				failed: 0,
+			});
+		});
+	});
+
+	describe("Subscriptions", () => {
+		const register = (body: Record<string, unknown>) =>
+			app.fetch(
+				new Request("http://localhost/subscriptions", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify(body),
+				}),
+				mockEnv,
+			);
+
+		test("should register a subscriber without echoing its secret", async () => {
+			const res = await register({
+				url: "https://subscriber.example.com/hook",
+				secret: "subscriber_secret_123",
+			});
+			const data = await res.json();
+
+			expect(res.status).toBe(201);
+			expect(data.subscription.id).toBeDefined();
+			expect(data.subscription.url).toBe("https://subscriber.example.com/hook");
+			expect(data.subscription.secret).toBeUndefined();
+		});
+
+		test("should reject an invalid subscriber URL", async () => {
+			const res = await register({
+				url: "not-a-url",
+				secret: "subscriber_secret_123",
+			});
+
+			expect(res.status).toBe(400);
+		});
+
+		test("should reject a short secret", async () => {
+			const res = await register({
+				url: "https://subscriber.example.com/hook",
+				secret: "short",
+			});
+
+			expect(res.status).toBe(400);
+		});
+
+		test("should list and delete subscribers", async () => {
+			const created = await (
+				await register({
+					url: "https://subscriber.example.com/hook",
+					secret: "subscriber_secret_123",
+				})
+			).json();
+			const id = created.subscription.id;
+
+			const listRes = await app.fetch(
+				new Request("http://localhost/subscriptions", {
+					headers: { Authorization: "Bearer test_auth_key" },
+				}),
+				mockEnv,
+			);
+			const list = await listRes.json();
+
+			expect(listRes.status).toBe(200);
+			expect(list.subscriptions).toHaveLength(1);
+			expect(list.subscriptions[0].secret).toBeUndefined();
+
+			const logRes = await app.fetch(
+				new Request(`http://localhost/subscriptions/${id}/deliveries`, {
+					headers: { Authorization: "Bearer test_auth_key" },
+				}),
+				mockEnv,
+			);
+			expect(logRes.status).toBe(200);
+			expect((await logRes.json()).deliveries).toEqual([]);
+
+			const deleteRes = await app.fetch(
+				new Request(`http://localhost/subscriptions/${id}`, {
+					method: "DELETE",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+				}),
+				mockEnv,
+			);
+			expect(deleteRes.status).toBe(200);
+
+			const missingRes = await app.fetch(
+				new Request(`http://localhost/subscriptions/${id}`, {
+					method: "DELETE",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+				}),
+				mockEnv,
+			);
+			expect(missingRes.status).toBe(404);
+		});
+
+		test("should answer a repeated delete with 404 past the route cache", async () => {
+			const caches = mockCaches();
+			const created = await (
+				await register({
+					url: "https://subscriber.example.com/hook",
+					secret: "subscriber_secret_123",
+				})
+			).json();
+			const remove = () =>
+				app.fetch(
+					new Request(
+						`http://localhost/subscriptions/${created.subscription.id}`,
+						{
+							method: "DELETE",
+							headers: {
+								"Content-Type": "application/json",
+								Authorization: "Bearer test_auth_key",
+							},
+						},
+					),
+					mockEnv,
+					caches.ctx,
+				);
+
+			try {
+				expect((await remove()).status).toBe(200);
+				expect((await remove()).status).toBe(404);
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
+
+		test("should keep subscribers and their logs per account", async () => {
+			const created = await (
+				await register({
+					account_id: "team_b",
+					url: "https://subscriber.example.com/hook",
+					secret: "subscriber_secret_123",
+				})
+			).json();
+			const id = created.subscription.id;
+
+			const get = (path: string) =>
+				app.fetch(
+					new Request(`http://localhost${path}`, {
+						headers: { Authorization: "Bearer test_auth_key" },
+					}),
+					mockEnv,
+				);
+
+			expect(
+				(await (await get("/subscriptions")).json()).subscriptions,
+			).toEqual([]);
+			expect(
+				(await (await get("/subscriptions?account_id=team_b")).json())
+					.subscriptions,
+			).toHaveLength(1);
+			expect((await get(`/subscriptions/${id}/deliveries`)).status).toBe(404);
+			expect(
+				(await get(`/subscriptions/${id}/deliveries?account_id=team_b`))
+					.status,
+			).toBe(200);
+		});
+
+		test("should require bearer authentication", async () => {
+			const res = await app.fetch(
+				new Request("http://localhost/subscriptions"),
+				mockEnv,
+			);
+
+			expect(res.status).toBe(401);
+		});
+	});
+
+	describe("Change rules", () => {
+		const post = (
+			path: string,
+			body: Record<string, unknown>,
+			ctx?: ExecutionContext,
+		) =>
+			app.fetch(
+				new Request(`http://localhost${path}`, {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: "Bearer test_auth_key",
+					},
+					body: JSON.stringify(body),
+				}),
+				mockEnv,
+				ctx,
+			);
+
+		const invoiceRule = {
+			account_id: "default",
+			folder_id: "folder_a",
+			name: "Invoices",
+			match: { name_glob: "INV-*.pdf", events: ["created"] },
+			actions: [
+				{ type: "tag", tags: ["finance"] },
+				{ type: "copy", folder_id: "archive" },
+			],
+		};
+
+		beforeEach(async () => {
+			await mockEnv.drive_kv.put(
+				"watched_folders",
+				JSON.stringify([
+					{ id: "folder_a", createdAt: 0 },
+					{ id: "folder_b", createdAt: 0 },
+				]),
+			);
+		});
+
+		test("should create, list and delete a rule", async () => {
+			const res = await post("/rules", invoiceRule);
+			const data = await res.json();
+
+			expect(res.status).toBe(201);
+			expect(data.rule).toMatchObject({
+				folderId: "folder_a",
+				enabled: true,
+				conditions: { nameGlob: "INV-*.pdf", events: ["created"] },
+				actions: [
+					{ type: "tag", tags: ["finance"] },
+					{ type: "copy", folderId: "archive" },
+				],
+			});
+
+			const listRes = await app.fetch(
+				new Request("http://localhost/rules?account_id=default", {
+					headers: { Authorization: "Bearer test_auth_key" },
+				}),
+				mockEnv,
+			);
+			expect((await listRes.json()).rules).toHaveLength(1);
+
+			const remove = () =>
+				app.fetch(
+					new Request(
+						`http://localhost/rules/${data.rule.id}?account_id=default`,
+						{
+							method: "DELETE",
+							headers: {
+								"Content-Type": "application/json",
+								Authorization: "Bearer test_auth_key",
+							},
+						},
+					),
+					mockEnv,
+				);
+			expect((await remove()).status).toBe(200);
+			expect((await remove()).status).toBe(404);
+		});
+
+		test("should answer a repeated delete with 404 past the route cache", async () => {
+			const caches = mockCaches();
+
+			try {
+				const { rule } = await (
+					await post("/rules", invoiceRule, caches.ctx)
+				).json();
+				const remove = () =>
+					app.fetch(
+						new Request(`http://localhost/rules/${rule.id}?account_id=default`, {
+							method: "DELETE",
+							headers: {
+								"Content-Type": "application/json",
+								Authorization: "Bearer test_auth_key",
+							},
+						}),
+						mockEnv,
+						caches.ctx,
+					);
+
+				expect((await remove()).status).toBe(200);
+				expect((await remove()).status).toBe(404);
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
+
+		test("should reject invalid rules", async () => {
+			const unwatched = await post("/rules", {
+				...invoiceRule,
+				folder_id: "elsewhere",
+			});
+			expect(unwatched.status).toBe(400);
+
+			const badPattern = await post("/rules", {
+				...invoiceRule,
+				match: { name_pattern: "([" },
+			});
+			expect(badPattern.status).toBe(400);
+
+			const badSize = await post("/rules", {
+				...invoiceRule,
+				match: { min_size: 10, max_size: 5 },
+			});
+			expect(badSize.status).toBe(400);
+
+			const unknown = await post("/rules", {
+				...invoiceRule,
+				actions: [{ type: "notify", destinations: ["missing"] }],
+			});
+			expect(unknown.status).toBe(400);
+			expect((await unknown.json()).unknown).toEqual(["missing"]);
+
+			const noActions = await post("/rules", { ...invoiceRule, actions: [] });
+			expect(noActions.status).toBe(400);
+		});
+
+		test("should dry-run rules against a sample change", async () => {
+			await post("/rules", invoiceRule);
+			await post("/rules", {
+				account_id: "default",
+				folder_id: "folder_b",
+				match: { mime_types: ["application/pdf"] },
+				actions: [{ type: "ignore" }],
+			});
+			fetchMock = mockFetch(() => Promise.resolve(new Response("{}")));
+
+			const res = await post("/rules/test", {
+				account_id: "default",
+				change: {
+					file: {
+						name: "INV-001.pdf",
+						mimeType: "application/pdf",
+						parents: ["folder_a", "folder_b"],
+						createdTime: "2026-01-01T00:00:00.000Z",
+						modifiedTime: "2026-01-01T00:00:00.000Z",
+					},
+				},
+			});
+			const data = await res.json();
+
+			expect(res.status).toBe(200);
+			expect(data.type).toBe("created");
+			expect(data.ignored).toBe(false);
+			expect(data.folders).toEqual(["folder_a"]);
+			expect(data.tags).toEqual(["finance"]);
+			expect(data.actions).toEqual([
+				expect.objectContaining({ type: "copy", folderId: "archive" }),
+			]);
+			// Nothing is carried out during a dry run
+			expect(fetchMock).not.toHaveBeenCalled();
+
+			const scoped = await post("/rules/test", {
+				account_id: "default",
+				folder_id: "folder_b",
+				change: {
+					type: "modified",
+					file: { name: "INV-001.pdf", mimeType: "application/pdf" },
+				},
+			});
+			expect(await scoped.json()).toMatchObject({
+				type: "modified",
+				ignored: true,
+				folders: [],
+			});
+		});
+		test("should evaluate every dry run instead of replaying the first", async () => {
+			const caches = mockCaches();
+			await post("/rules", invoiceRule);
+
+			const dryRun = (name: string) =>
+				post(
+					"/rules/test",
+					{
+						account_id: "default",
+						change: {
+							type: "created",
+							file: { name, parents: ["folder_a"] },
+						},
+					},
+					caches.ctx,
+				);
+
+			try {
+				const invoice = await (await dryRun("INV-001.pdf")).json();
+				const other = await (await dryRun("notes.txt")).json();
+
+				expect(invoice.tags).toEqual(["finance"]);
+				expect(other.tags).toEqual([]);
+				expect(caches.entries.size).toBe(0);
+			} finally {
+				caches.restore();
+			}
+		});
+	});
+
+	describe("Authentication", () => {
+		test("should reject requests without bearer token", async () => {
+			const req = new Request("http://localhost/oauth/url", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({
+					client_id: "test",
+					client_secret: "test",
+					redirect_uris: ["http://localhost"],
+				}),
+			});
+
+			const res = await app.fetch(req, mockEnv);
+
+			expect(res.status).toBe(401);
+		});
+
+		test("should reject requests with invalid bearer token", async () => {
+			const req = new Request("http://localhost/oauth/url", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: "Bearer invalid_token",
+				},
+				body: JSON.stringify({
+					client_id: "test",
+					client_secret: "test",
+					redirect_uris: ["http://localhost"],
+				}),
+			});
+
+			const res = await app.fetch(req, mockEnv);
+
+			expect(res.status).toBe(401);
 		});
 
 		test("should allow requests with valid bearer token", async () => {
@@ -727,14 +3132,14 @@ describe("Drive Webhook API", () => {
 				},
 			});
 
-			global.fetch = mock(() =>
+			mockFetch(() =>
 				Promise.resolve(
 					new Response(mockStream, {
 						status: 200,
 						headers: { "Content-Type": "text/event-stream" },
 					}),
 				),
-			) as any;
+			);
 
 			const req = new Request("http://localhost/wrangler/tail", {
 				headers: {
@@ -752,7 +3157,7 @@ describe("Drive Webhook API", () => {
 
 describe("Helper Functions Integration", () => {
 	test("should properly integrate with getOrUpdateKV", async () => {
-		const mockEnv = createMockEnv();
+		const mockEnv = createAppEnv();
 		const key = "test_key";
 		const value = "test_value";
 
@@ -763,7 +3168,7 @@ describe("Helper Functions Integration", () => {
 	});
 
 	test("should handle KV deletion", async () => {
-		const mockEnv = createMockEnv();
+		const mockEnv = createAppEnv();
 		const key = "test_key";
 		const value = "test_value";
 
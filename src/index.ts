@@ -1,5 +1,8 @@
 import { env } from "node:process";
-import type { ScheduledController } from "@cloudflare/workers-types";
+import type {
+	MessageBatch,
+	ScheduledController,
+} from "@cloudflare/workers-types";
 import { sValidator } from "@hono/standard-validator";
 import { type ExecutionContext, Hono } from "hono";
 import { bearerAuth } from "hono/bearer-auth";
@@ -7,75 +10,173 @@ import { cache } from "hono/cache";
 import { except } from "hono/combine";
 import { csrf } from "hono/csrf";
 import { secureHeaders } from "hono/secure-headers";
+import { timingSafeEqual } from "hono/utils/buffer";
 import {
 	array,
+	boolean,
+	check,
+	email,
+	type InferOutput,
+	integer,
+	literal,
+	maxValue,
 	message,
+	minLength,
+	minValue,
 	nonEmpty,
+	number,
 	object,
 	optional,
+	picklist,
 	pipe,
+	regex,
+	safeParse,
 	string,
+	transform,
 	trim,
+	union,
+	url,
+	variant,
 } from "valibot";
 import {
-	fetchAndLogChanges,
+	ACCOUNT_ID_PATTERN,
+	accountKey,
+	DEFAULT_ACCOUNT_ID,
+	listAccounts,
+	registerAccount,
+} from "./accounts";
+import { MAX_ANCESTRY_DEPTH } from "./ancestry";
+import { getSecret, putSecret, resealSecrets } from "./crypto";
+import {
+	EXPORT_FORMATS,
+	type ExportFormat,
+	resolveDownloadTarget,
+	streamDownload,
+} from "./download";
+import {
+	CHANGE_EVENT_TYPES,
+	type DriveChange,
+	getStartPageToken,
+	watchChanges,
+} from "./drive";
+import { listFileWatches } from "./fileWatches";
+import {
+	listWatchedFolders,
+	removeWatchedFolder,
+	upsertWatchedFolder,
+} from "./folders";
+import {
+	classifyChange,
+	createFileWatch,
 	generateAuthUrl,
 	getAccessTokens,
+	getDriveId,
+	getDriveWatch,
 	getOrUpdateKV,
 	getValidAccessToken,
+	renewDriveWatch,
 	renewDriveWatchIfNeeded,
+	renewFileWatchesIfNeeded,
+	saveDriveWatch,
+	setDriveId,
+	stopDriveWatch,
+	stopFileWatch,
 	validateDriveWebhook,
-	watchChannel,
 } from "./helper";
+import { queryChangeHistory } from "./history";
+import {
+	consumeChangeJobs,
+	consumeDeadJobs,
+	DEAD_LETTER_QUEUE_NAME,
+	enqueueChanges,
+	listDeadJobs,
+	requeueDeadJob,
+} from "./jobs";
 import { rateLimit } from "./middleware";
-import type { AppBindings, OAuthSecrets } from "./types";
-import { logger } from "./utils";
+import { DEFAULT_MIRROR_KEY_TEMPLATE, getMirrorStatus } from "./mirror";
+import {
+	authorizationPage,
+	completeAuthorization,
+	createPendingAuthorization,
+	disconnectAccount,
+	PENDING_TTL_S,
+	requireAuthorization,
+	storeTokens,
+	takePendingAuthorization,
+} from "./oauth";
+import { processChanges, syncPageToken } from "./processor";
+import { getReauthState, listReauthRequired } from "./reauth";
+import { createRule, deleteRule, evaluateRules, listRules } from "./rules";
+import {
+	checkScope,
+	DEFAULT_SCOPE_PROFILE,
+	insufficientScope,
+	requireScope,
+	SCOPE_PROFILES,
+	type ScopeProfile,
+} from "./scopes";
+import {
+	createSubscription,
+	deleteSubscription,
+	getDeliveryLog,
+	listSubscriptions,
+} from "./subscriptions";
+import type {
+	AppBindings,
+	OAuthSecrets,
+	QueueJob,
+	RuleAction,
+	RuleConditions,
+	Subscription,
+} from "./types";
+import { isValidRegExp, logger } from "./utils";
 
 const app = new Hono<{ Bindings: AppBindings }>();
 
+// Optional account selector shared by every account-aware route
+const accountIdSchema = optional(
+	pipe(
+		string(),
+		trim(),
+		regex(
+			ACCOUNT_ID_PATTERN,
+			"Account ID may only contain letters, digits, '_' and '-'",
+		),
+	),
+	DEFAULT_ACCOUNT_ID,
+);
+
 /* -------------------------------------------------------------------------- */
 /*                               Middleware	                                  */
 /* -------------------------------------------------------------------------- */
-app.use(csrf());
+// Google push notifications are header-only POSTs without a Content-Type
+app.use(except("/drive/webhook", csrf()));
 app.use(secureHeaders());
-app.use("*", async (c, next) => {
-	const path = c.req.path;
-
-	// Health & root → higher limit
-	if (path === "/health" || path === "/") {
-		return rateLimit({
-			windowMs: 60_000,
-			max: 60,
-		})(c, next);
-	}
-
-	// Drive APIs → stricter limit
-	if (path.startsWith("/drive/")) {
-		return rateLimit({
-			windowMs: 60_000,
-			max: 5,
-		})(c, next);
-	}
-
-	// Everything else → no rate limit
-	return next();
-});
+app.use("*", rateLimit());
 
+// The cache keys on the URL alone: only reads are cached, and only once the
+// caller is authenticated, so a hit is never served past bearerAuth
 app.use(
 	"*",
 	except(
 		["/", "/health", "/oauth/callback", "/drive/webhook"],
-		async (c, next) =>
-			await cache({
-				cacheName: "drive-webhook-cache",
-				cacheControl: c.req.path === "/health" ? "max-age=5" : "max-age=600",
-			})(c, next),
 		bearerAuth({
 			verifyToken: (token, c) => token === c.env.WEBHOOK_AUTH_KEY,
 		}),
+		async (c, next) => {
+			if (c.req.method !== "GET" && c.req.method !== "HEAD") return next();
+
+			return cache({
+				cacheName: "drive-webhook-cache",
+				cacheControl: "max-age=600",
+			})(c, next);
+		},
 	),
 );
 
+// Drive routes of an account whose grant Google refused answer 409
+app.use("/drive/*", except("/drive/webhook", requireAuthorization()));
+
 /* -------------------------------------------------------------------------- */
 /*                               Wrangler Tail                                */
 /* -------------------------------------------------------------------------- */
@@ -124,84 +225,180 @@ app.get("/wrangler/tail", async (c) => {
 /*                               Drive Handlers                               */
 /* -------------------------------------------------------------------------- */
 
+// Optional JSON body accepted on /drive/webhook for manual testing
+const webhookOverridesSchema = object({
+	drive_folder_id: optional(pipe(string(), trim())),
+	access_token: optional(pipe(string(), trim())),
+	drive_start_page_token: optional(pipe(string(), trim())),
+});
+
 // Drive Webhook
-app.post(
-	"/drive/webhook",
-	sValidator(
-		"json",
-		object({
-			drive_folder_id: message(
-				pipe(string(), trim()),
-				"Google Drive Folder ID is required",
-			),
-			access_token: optional(pipe(string(), trim())),
-			drive_start_page_token: optional(pipe(string(), trim())),
-		}),
-	),
-	async (c) => {
-		try {
-			const state = c.req.header("X-Goog-Resource-State");
+app.post("/drive/webhook", async (c) => {
+	try {
+		// 🧪 Google pushes carry no body; a JSON body is an authenticated debug override
+		const rawBody = (await c.req.text()).trim();
+		let overrides: InferOutput<typeof webhookOverridesSchema> = {};
+
+		if (rawBody) {
+			const authorization = c.req.header("Authorization") ?? "";
+			const authorized = await timingSafeEqual(
+				authorization,
+				`Bearer ${c.env.WEBHOOK_AUTH_KEY}`,
+			);
 
-			// 🔄 Ignore initial sync
-			if (state === "sync") {
-				logger.log("🔄 Drive sync event received");
-				return c.json({ message: "Sync acknowledged", state }, 200);
+			if (!authorized) {
+				logger.error("🚨 Unauthenticated Drive webhook override");
+				return c.json(
+					{ message: "Webhook overrides require bearer authentication" },
+					401,
+				);
 			}
 
-			// 🔐 Validate webhook authenticity
-			const receivedToken = c.req.header("X-Goog-Channel-Token");
-			const expectedToken = await c.env.drive_kv.get("driveWebhookToken");
+			let json: unknown;
+			try {
+				json = JSON.parse(rawBody);
+			} catch {
+				return c.json({ message: "Malformed webhook override body" }, 400);
+			}
 
-			if (!(await validateDriveWebhook(expectedToken, receivedToken))) {
-				logger.error("🚨 Unauthorized Drive webhook call");
-				return c.json({ message: "Unauthorized webhook" }, 401);
+			const parsed = safeParse(webhookOverridesSchema, json);
+			if (!parsed.success) {
+				return c.json(
+					{
+						message: "Invalid webhook override body",
+						issues: parsed.issues.map((issue) => issue.message),
+					},
+					400,
+				);
 			}
 
-			// 🔁 KV fallback/update
-			const googleDriveFolderID = await getOrUpdateKV(
-				c.env,
-				"drive_folder_id",
-				c.req.valid("json").drive_folder_id,
-			);
+			overrides = parsed.output;
+		}
 
-			const googleDriveStartPageToken = await getOrUpdateKV(
-				c.env,
-				"drive_start_page_token",
-				c.req.valid("json").drive_start_page_token,
+		const state = c.req.header("X-Goog-Resource-State");
+
+		// 🔄 Ignore initial sync
+		if (state === "sync") {
+			logger.log("🔄 Drive sync event received");
+			return c.json({ message: "Sync acknowledged", state }, 200);
+		}
+
+		// 🔐 Verify channel, token, resource and message number
+		const verification = await validateDriveWebhook(c.env, {
+			channelId: c.req.header("X-Goog-Channel-ID"),
+			channelToken: c.req.header("X-Goog-Channel-Token"),
+			resourceId: c.req.header("X-Goog-Resource-ID"),
+			resourceState: state,
+			messageNumber: c.req.header("X-Goog-Message-Number"),
+		});
+
+		if (!verification.ok) {
+			// Acknowledge duplicates so Google does not retry them
+			if (verification.reason === "replayed_message") {
+				return c.json(
+					{
+						message: "Duplicate notification ignored",
+						reason: verification.reason,
+					},
+					200,
+				);
+			}
+
+			logger.error("🚨 Unauthorized Drive webhook call");
+			return c.json(
+				{ message: "Unauthorized webhook", reason: verification.reason },
+				401,
 			);
+		}
 
-			const accessToken = await getOrUpdateKV(
-				c.env,
-				"accessToken",
-				c.req.valid("json").access_token,
+		// 👤 The verified channel determines the account
+		const { accountId, fileId } = verification;
+
+		// 📄 Single-file channels report on that file, not the change feed
+		if (fileId) {
+			const changed =
+				c.req.header("X-Goog-Changed")?.split(",").filter(Boolean) ?? [];
+
+			logger.log(`📄 File ${fileId} ${state} (${accountId})`);
+
+			// 📬 Queued like change pushes; only the channel's account is notified
+			await c.env.CHANGE_QUEUE.send({
+				kind: "file_watch",
+				accountId,
+				channelId: c.req.header("X-Goog-Channel-ID") ?? "",
+				fileId,
+				state: state ?? "",
+				changed,
+				receivedAt: Date.now(),
+			});
+
+			return c.json(
+				{ message: "File notification queued", fileId, state },
+				200,
 			);
+		}
 
-			if (!accessToken || !googleDriveFolderID || !googleDriveStartPageToken) {
-				return c.json({ message: "Missing required Drive configuration" }, 400);
+		// 📁 Register an override folder alongside existing ones
+		if (overrides.drive_folder_id) {
+			const folderId = overrides.drive_folder_id;
+			const registered = await listWatchedFolders(c.env, accountId);
+			if (!registered.some((folder) => folder.id === folderId)) {
+				await upsertWatchedFolder(c.env, { id: folderId }, accountId);
 			}
+		}
 
-			logger.log("📩 Drive change notification received");
+		logger.log(`📩 Drive change notification received (${accountId})`);
 
-			const result = await fetchAndLogChanges(
-				c.env,
-				accessToken,
-				googleDriveFolderID,
-				googleDriveStartPageToken,
-			);
+		// 📬 Google pushes are queued so the response never waits on Drive
+		if (!rawBody) {
+			await enqueueChanges(c.env, {
+				accountId,
+				channelId: c.req.header("X-Goog-Channel-ID") ?? "",
+				messageNumber: Number(c.req.header("X-Goog-Message-Number")),
+				receivedAt: Date.now(),
+			});
 
-			return c.json({ message: "Change processed", result }, 200);
-		} catch (error: unknown) {
-			logger.error(error);
+			return c.json({ message: "Change queued", accountId }, 200);
+		}
+
+		// 🧪 Debug overrides run inline so the caller sees the result
+		const outcome = await processChanges(c.env, {
+			accountId,
+			accessToken: overrides.access_token,
+			startPageToken: overrides.drive_start_page_token,
+		});
+
+		if (outcome.status === "misconfigured") {
+			return c.json({ message: "Missing required Drive configuration" }, 400);
+		}
+
+		if (outcome.status === "reauth_required") {
 			return c.json(
 				{
-					message: "Drive webhook processing failed",
-					error: error instanceof Error ? error.message : "Unknown error",
+					message: "Re-authorization required for this account",
+					reason: "reauth_required",
+					accountId,
 				},
-				500,
+				409,
 			);
 		}
-	},
-);
+
+		if (outcome.status === "coalesced") {
+			return c.json({ message: "Change queued behind the running batch" }, 202);
+		}
+
+		return c.json({ message: "Change processed", result: outcome.result }, 200);
+	} catch (error: unknown) {
+		logger.error(error);
+		return c.json(
+			{
+				message: "Drive webhook processing failed",
+				error: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+});
 
 // Drive Watch
 app.post(
@@ -209,23 +406,27 @@ app.post(
 	sValidator(
 		"json",
 		object({
+			account_id: accountIdSchema,
 			access_token: optional(pipe(string(), trim())),
 			drive_start_page_token: optional(pipe(string(), trim())),
+			drive_id: optional(pipe(string(), trim())),
 			worker_drive_webhook_url: message(
 				pipe(string(), trim()),
 				"Worker Drive Webhook URL is required",
 			),
 		}),
 	),
+	requireScope("metadata"),
 	async (c) => {
 		try {
 			const body = c.req.valid("json");
-			logger.log("👀 Creating Drive watch channel");
+			const accountId = body.account_id;
+			logger.log(`👀 Creating Drive watch channel (${accountId})`);
 
 			// 1️⃣ Read Google Drive StartPage Token & Webhook URL
 			const webhookUrl = await getOrUpdateKV(
 				c.env,
-				"worker_drive_webhook_url",
+				accountKey(accountId, "worker_drive_webhook_url"),
 				body.worker_drive_webhook_url,
 			);
 
@@ -245,9 +446,24 @@ app.post(
 				);
 			}
 
-			const startPageToken = await getOrUpdateKV(
+			// 🗂️ A page token only tracks the drive it was issued for
+			const storedDriveId = await getDriveId(c.env, accountId);
+			const driveId =
+				body.drive_id === undefined ? storedDriveId : body.drive_id || null;
+
+			if (driveId !== storedDriveId && !body.drive_start_page_token) {
+				return c.json(
+					{
+						message:
+							"Switching drives needs a start page token for that drive. Call /drive/startPageToken with drive_id first.",
+					},
+					400,
+				);
+			}
+
+			const startPageToken = await syncPageToken(
 				c.env,
-				"drive_start_page_token",
+				accountId,
 				body.drive_start_page_token,
 			);
 
@@ -265,11 +481,11 @@ app.post(
 			// 3️⃣ Get valid access token
 			let accessToken =
 				c.req.valid("json").access_token ||
-				(await getValidAccessToken(c.env)) ||
-				(await c.env.drive_kv.get("accessToken"));
+				(await getValidAccessToken(c.env, accountId)) ||
+				(await getSecret(c.env, accountKey(accountId, "accessToken")));
 
 			if (!accessToken) {
-				accessToken = await getValidAccessToken(c.env);
+				accessToken = await getValidAccessToken(c.env, accountId);
 
 				if (!accessToken) {
 					c.status(400);
@@ -282,34 +498,38 @@ app.post(
 			const webhookToken = crypto.randomUUID(); // used for validation
 
 			// 5️⃣ Create watch channel
-			const res = await watchChannel({
+			const res = await watchChanges({
 				accessToken,
 				channelId,
 				expiration,
 				startPageToken,
 				webhookToken,
 				webhookUrl,
+				driveId,
 			});
 
 			if (!res.ok) {
-				const error = await res.text();
-				logger.error(`❌ Drive watch error: ${error}`);
+				logger.error(`❌ Drive watch error: ${res.error}`);
 
 				c.status(500);
 				return c.json({
 					message: "Failed to create watch channel",
-					error,
+					error: res.error,
 				});
 			}
 
-			const data = await res.json();
+			const data = res.data;
 
 			// 6️⃣ Persist channel metadata
 			await Promise.all([
-				c.env.drive_kv.put("driveChannelId", channelId),
-				c.env.drive_kv.put("driveResourceId", data.resourceId),
-				c.env.drive_kv.put("driveChannelExpiration", expiration.toString()),
-				c.env.drive_kv.put("driveWebhookToken", webhookToken),
+				saveDriveWatch(c.env, accountId, {
+					channelId,
+					resourceId: data.resourceId,
+					expiration,
+					webhookToken,
+					driveId,
+				}),
+				registerAccount(c.env, accountId),
 			]);
 
 			logger.log("✅ Drive watch channel created");
@@ -318,6 +538,8 @@ app.post(
 			c.status(200);
 			return c.json({
 				message: "Drive watch channel created",
+				accountId,
+				driveId,
 				channelId,
 				resourceId: data.resourceId,
 				expiration,
@@ -335,151 +557,222 @@ app.post(
 	},
 );
 
-// Dtive Start Page Token
-app.post(
-	"/drive/startPageToken",
-	sValidator(
-		"json",
-		object({
-			access_token: message(pipe(string(), trim()), "Access token is required"),
-		}),
-	),
+const watchErrorStatus = {
+	no_channel: 404,
+	missing_metadata: 409,
+	google_error: 502,
+} as const;
+
+// Inspect Drive Watch
+app.get(
+	"/drive/watch",
+	sValidator("query", object({ account_id: accountIdSchema })),
 	async (c) => {
-		const accessToken = await getOrUpdateKV(
-			c.env,
-			"accessToken",
-			c.req.valid("json").access_token,
-		);
+		const { account_id } = c.req.valid("query");
+		const status = await getDriveWatch(c.env, account_id);
 
-		if (!accessToken) {
-			return c.json({ message: "Access token missing" }, 400);
-		}
+		c.header("Cache-Control", "no-store");
 
-		logger.log("🚀 Initializing Google Drive change tracking");
+		if (!status) {
+			return c.json({ message: "No active watch channel" }, 404);
+		}
 
-		// 2️⃣ Fetch startPageToken from Drive
-		const res = await fetch(
-			"https://www.googleapis.com/drive/v3/changes/startPageToken",
+		return c.json(
 			{
-				method: "GET",
-				headers: {
-					Authorization: `Bearer ${accessToken}`,
-				},
+				accountId: account_id,
+				...status,
+				expired: status.remainingMs <= 0,
 			},
+			200,
 		);
+	},
+);
 
-		if (!res.ok) {
-			const error = await res.text();
-			logger.error(`❌ Drive API error: ${error}`);
+// Stop Drive Watch
+app.delete(
+	"/drive/watch",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const { account_id } = c.req.valid("query");
+
+		try {
+			const result = await stopDriveWatch(c.env, account_id);
+
+			if (!result.ok) {
+				return c.json(
+					{
+						message: "Failed to stop watch channel",
+						reason: result.reason,
+						error: result.error,
+					},
+					watchErrorStatus[result.reason],
+				);
+			}
 
 			return c.json(
 				{
-					message: "Failed to fetch startPageToken",
-					error,
+					message: "Drive watch channel stopped",
+					accountId: account_id,
+					channelId: result.status.channelId,
+				},
+				200,
+			);
+		} catch (error: unknown) {
+			logger.error(error);
+			return c.json(
+				{
+					message: "Failed to stop watch channel",
+					error: error instanceof Error ? error.message : "Unknown error",
 				},
 				500,
 			);
 		}
+	},
+);
 
-		const { startPageToken } = await res.json();
-
-		if (!startPageToken) {
-			return c.json({ message: "StartPageToken missing in response" }, 500);
-		}
+// Force Drive Watch Renewal
+app.post(
+	"/drive/watch/renew",
+	sValidator("json", object({ account_id: accountIdSchema })),
+	requireScope("metadata"),
+	async (c) => {
+		const { account_id } = c.req.valid("json");
 
-		// 3️⃣ Store in KV (remote in prod automatically)
-		await c.env.drive_kv.put("drive_start_page_token", startPageToken);
+		try {
+			const result = await renewDriveWatch(c.env, account_id);
 
-		logger.log(`✅ startPageToken stored: ${startPageToken}`);
+			if (!result.ok) {
+				return c.json(
+					{
+						message: "Failed to renew watch channel",
+						reason: result.reason,
+						error: result.error,
+					},
+					watchErrorStatus[result.reason],
+				);
+			}
 
-		// 4️⃣ Respond
-		return c.json(
-			{
-				message: "Drive change tracking initialized",
-				drive_start_page_token: startPageToken,
-			},
-			200,
-		);
+			return c.json(
+				{
+					message: "Drive watch channel renewed",
+					accountId: account_id,
+					...result.status,
+				},
+				200,
+			);
+		} catch (error: unknown) {
+			logger.error(error);
+			return c.json(
+				{
+					message: "Failed to renew watch channel",
+					error: error instanceof Error ? error.message : "Unknown error",
+				},
+				500,
+			);
+		}
 	},
 );
 
-// Drive Download
+// Watch a Single File
 app.post(
-	"/drive/download",
+	"/drive/files/:fileId/watch",
 	sValidator(
 		"json",
 		object({
+			account_id: accountIdSchema,
 			access_token: optional(pipe(string(), trim())),
-			file_name: message(pipe(string(), trim()), "File name is required"),
-			drive_start_page_token: optional(pipe(string(), trim())),
+			worker_drive_webhook_url: optional(pipe(string(), trim(), url())),
 		}),
 	),
+	requireScope("metadata"),
 	async (c) => {
-		try {
-			const { file_name } = c.req.valid("json");
-			const access_token =
-				c.req.valid("json").access_token || (await getValidAccessToken(c.env));
-			const drive_start_page_token = await getOrUpdateKV(
-				c.env,
-				"drive_start_page_token",
-				c.req.valid("json").drive_start_page_token,
-			);
+		const fileId = c.req.param("fileId");
+		const body = c.req.valid("json");
 
-			if (!access_token) {
-				return c.json({ message: "Access Token not found" }, 500);
-			}
+		try {
+			const result = await createFileWatch(c.env, body.account_id, fileId, {
+				webhookUrl: body.worker_drive_webhook_url,
+				accessToken: body.access_token,
+			});
 
-			if (!drive_start_page_token) {
-				return c.json({ message: "Drive start page token not found" }, 500);
+			if (!result.ok) {
+				return c.json(
+					{
+						message: "Failed to watch file",
+						reason: result.reason,
+						error: result.error,
+					},
+					watchErrorStatus[result.reason],
+				);
 			}
 
-			// Fetch changes
-			const changesRes = await fetch(
-				`https://www.googleapis.com/drive/v3/changes?pageToken=${drive_start_page_token}&fields=changes(file(id,name,mimeType))`,
+			const { webhookToken: _, ...watch } = result.watch;
+			return c.json(
+				{ message: "File watch created", accountId: body.account_id, watch },
+				200,
+			);
+		} catch (error: unknown) {
+			logger.error(error);
+			return c.json(
 				{
-					headers: { Authorization: `Bearer ${access_token}` },
+					message: "Failed to watch file",
+					error: error instanceof Error ? error.message : "Unknown error",
 				},
+				500,
 			);
+		}
+	},
+);
 
-			if (!changesRes.ok) {
-				return c.json({ message: "Failed to fetch changes" }, 500);
-			}
-
-			const { changes } = await changesRes.json();
+// List File Watches
+app.get(
+	"/drive/files/watched",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const { account_id } = c.req.valid("query");
+		const watches = await listFileWatches(c.env, account_id);
 
-			const targetFile = changes?.find(
-				(change: any) => change.file?.name === file_name,
-			)?.file;
+		c.header("Cache-Control", "no-store");
+		return c.json(
+			{
+				watches: watches.map(({ webhookToken: _, ...watch }) => ({
+					...watch,
+					remainingMs: watch.expiration - Date.now(),
+				})),
+			},
+			200,
+		);
+	},
+);
 
-			if (!targetFile) {
-				return c.json({ message: "File not found in recent changes" }, 404);
-			}
+// Stop Watching a File
+app.delete(
+	"/drive/files/:fileId/watch",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const fileId = c.req.param("fileId");
+		const { account_id } = c.req.valid("query");
 
-			// Download file
-			const fileRes = await fetch(
-				`https://www.googleapis.com/drive/v3/files/${targetFile.id}?alt=media`,
-				{
-					headers: { Authorization: `Bearer ${access_token}` },
-				},
-			);
+		try {
+			const result = await stopFileWatch(c.env, account_id, fileId);
 
-			if (!fileRes.ok) {
-				return c.json({ message: "Failed to download file" }, 500);
+			if (!result.ok) {
+				return c.json(
+					{
+						message: "Failed to stop file watch",
+						reason: result.reason,
+						error: result.error,
+					},
+					watchErrorStatus[result.reason],
+				);
 			}
 
-			const fileBlob = await fileRes.blob();
-
-			return new Response(fileBlob, {
-				headers: {
-					"Content-Type": targetFile.mimeType || "application/octet-stream",
-					"Content-Disposition": `attachment; filename="${targetFile.name}"`,
-				},
-			});
+			return c.json({ message: "File watch stopped", fileId }, 200);
 		} catch (error: unknown) {
 			logger.error(error);
 			return c.json(
 				{
-					message: "Download failed",
+					message: "Failed to stop file watch",
 					error: error instanceof Error ? error.message : "Unknown error",
 				},
 				500,
@@ -488,52 +781,731 @@ app.post(
 	},
 );
 
-/* -------------------------------------------------------------------------- */
-/*                               OAuth Handlers                                */
-/* -------------------------------------------------------------------------- */
-
-// Exchange Google OAuth code for tokens
+// Register Watched Folder
 app.post(
-	"/oauth/exchange",
+	"/drive/folders/watched",
 	sValidator(
 		"json",
 		object({
-			auth_code: optional(
-				pipe(string(), trim()),
-				"Google OAuth2 code is required",
+			account_id: accountIdSchema,
+			folder_id: message(
+				pipe(string(), trim(), nonEmpty("Folder ID shouldn't be empty")),
+				"Google Drive Folder ID is required",
 			),
-			client_id: optional(
-				pipe(string(), trim()),
-				"Google Client ID is required",
+			label: optional(pipe(string(), trim())),
+			filters: optional(
+				object({
+					mime_types: optional(array(pipe(string(), trim()))),
+					name_pattern: optional(
+						pipe(
+							string(),
+							check(isValidRegExp, "Name pattern must be a valid regex"),
+						),
+					),
+				}),
 			),
-			client_secret: optional(
-				pipe(string(), trim()),
-				"Google Client Secret is required",
+			destinations: optional(array(pipe(string(), trim()))),
+			recursive: optional(boolean()),
+			max_depth: optional(
+				pipe(
+					number(),
+					integer("Max depth must be a whole number"),
+					minValue(1, "Max depth must be at least 1"),
+					maxValue(
+						MAX_ANCESTRY_DEPTH,
+						`Max depth cannot exceed ${MAX_ANCESTRY_DEPTH}`,
+					),
+				),
 			),
-			redirect_uris: optional(pipe(array(pipe(string(), trim())))),
 		}),
 	),
 	async (c) => {
-		const bodyData = c.req.valid("json");
+		const body = c.req.valid("json");
 
-		// Prioritize request body params, fallback to KV
+		if (body.destinations?.length) {
+			const known = new Set(
+				(await listSubscriptions(c.env, body.account_id)).map((sub) => sub.id),
+			);
+			const unknown = body.destinations.filter((id) => !known.has(id));
+
+			if (unknown.length) {
+				return c.json({ message: "Unknown destinations", unknown }, 400);
+			}
+		}
+
+		const folder = await upsertWatchedFolder(
+			c.env,
+			{
+				id: body.folder_id,
+				label: body.label,
+				filters: body.filters && {
+					mimeTypes: body.filters.mime_types,
+					namePattern: body.filters.name_pattern,
+				},
+				destinations: body.destinations,
+				recursive: body.recursive,
+				maxDepth: body.max_depth,
+			},
+			body.account_id,
+		);
+
+		logger.log(`📁 Watching folder: ${folder.label ?? folder.id}`);
+
+		return c.json({ message: "Folder registered", folder }, 200);
+	},
+);
+
+// List Watched Folders
+app.get(
+	"/drive/folders/watched",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const { account_id } = c.req.valid("query");
+
+		c.header("Cache-Control", "no-store");
+		return c.json(
+			{ folders: await listWatchedFolders(c.env, account_id) },
+			200,
+		);
+	},
+);
+
+// Remove Watched Folder
+app.delete(
+	"/drive/folders/watched/:folderId",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const folderId = c.req.param("folderId");
+		const { account_id } = c.req.valid("query");
+
+		if (!(await removeWatchedFolder(c.env, folderId, account_id))) {
+			return c.json({ message: "Folder is not watched" }, 404);
+		}
+
+		logger.log(`📁 Stopped watching folder: ${folderId}`);
+
+		return c.json({ message: "Folder removed", folderId }, 200);
+	},
+);
+
+// Dtive Start Page Token
+app.post(
+	"/drive/startPageToken",
+	sValidator(
+		"json",
+		object({
+			account_id: accountIdSchema,
+			access_token: message(pipe(string(), trim()), "Access token is required"),
+			drive_id: optional(pipe(string(), trim())),
+		}),
+	),
+	requireScope("metadata"),
+	async (c) => {
+		const { account_id: accountId, drive_id: driveId } = c.req.valid("json");
+		const accessToken = await getOrUpdateKV(
+			c.env,
+			accountKey(accountId, "accessToken"),
+			c.req.valid("json").access_token,
+		);
+
+		if (!accessToken) {
+			return c.json({ message: "Access token missing" }, 400);
+		}
+
+		logger.log("🚀 Initializing Google Drive change tracking");
+
+		// 2️⃣ Fetch startPageToken from Drive
+		const res = await getStartPageToken(accessToken, driveId);
+
+		if (!res.ok) {
+			logger.error(`❌ Drive API error: ${res.error}`);
+
+			return c.json(
+				{
+					message: "Failed to fetch startPageToken",
+					error: res.error,
+				},
+				500,
+			);
+		}
+
+		const { startPageToken } = res.data;
+
+		if (!startPageToken) {
+			return c.json({ message: "StartPageToken missing in response" }, 500);
+		}
+
+		// 3️⃣ Hand it to the change processor (mirrored to KV) with its drive
+		await Promise.all([
+			syncPageToken(c.env, accountId, startPageToken),
+			setDriveId(c.env, accountId, driveId),
+		]);
+
+		logger.log(`✅ startPageToken stored: ${startPageToken}`);
+
+		// 4️⃣ Respond
+		return c.json(
+			{
+				message: "Drive change tracking initialized",
+				drive_start_page_token: startPageToken,
+				drive_id: driveId || null,
+			},
+			200,
+		);
+	},
+);
+
+// Drive Download
+app.post(
+	"/drive/download",
+	sValidator(
+		"json",
+		pipe(
+			object({
+				account_id: accountIdSchema,
+				access_token: optional(pipe(string(), trim())),
+				file_id: optional(pipe(string(), trim(), nonEmpty())),
+				file_name: optional(pipe(string(), trim(), nonEmpty())),
+				folder_id: optional(pipe(string(), trim(), nonEmpty())),
+				format: optional(
+					picklist(
+						Object.keys(EXPORT_FORMATS) as ExportFormat[],
+						`Format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}`,
+					),
+				),
+			}),
+			check(
+				(body) => Boolean(body.file_id || body.file_name),
+				"File ID or file name is required",
+			),
+		),
+	),
+	requireScope("content"),
+	async (c) => {
+		try {
+			const body = c.req.valid("json");
+			const accessToken =
+				body.access_token ||
+				(await getValidAccessToken(c.env, body.account_id));
+
+			if (!accessToken) {
+				return c.json({ message: "Access Token not found" }, 500);
+			}
+
+			// 🔎 Name lookups stay inside the given or watched folders
+			const folderIds = body.folder_id
+				? [body.folder_id]
+				: (await listWatchedFolders(c.env, body.account_id)).map(
+						(folder) => folder.id,
+					);
+
+			const target = await resolveDownloadTarget(accessToken, {
+				fileId: body.file_id,
+				fileName: body.file_name,
+				folderIds,
+				driveId: await getDriveId(c.env, body.account_id),
+				format: body.format,
+			});
+
+			if (!target.ok) {
+				return c.json({ message: target.message }, target.status);
+			}
+
+			// 📦 Stream straight through; the file is never buffered
+			const download = await streamDownload(
+				accessToken,
+				target,
+				c.req.raw.headers,
+			);
+
+			if (!(download instanceof Response)) {
+				return c.json({ message: download.message }, download.status);
+			}
+
+			logger.log(
+				`⬇️ Downloading ${target.file.name}${target.exportAs ? ` as ${target.exportAs}` : ""}`,
+			);
+
+			return download;
+		} catch (error: unknown) {
+			logger.error(error);
+			return c.json(
+				{
+					message: "Download failed",
+					error: error instanceof Error ? error.message : "Unknown error",
+				},
+				500,
+			);
+		}
+	},
+);
+
+// Change History
+const timestampSchema = pipe(
+	string(),
+	trim(),
+	check((value) => !Number.isNaN(Date.parse(value)), "Invalid timestamp"),
+	transform((value) => Date.parse(value)),
+);
+
+app.get(
+	"/drive/changes",
+	sValidator(
+		"query",
+		object({
+			account_id: accountIdSchema,
+			since: optional(timestampSchema),
+			until: optional(timestampSchema),
+			folder: optional(pipe(string(), trim(), nonEmpty())),
+			type: optional(
+				picklist(
+					CHANGE_EVENT_TYPES,
+					`Type must be one of: ${CHANGE_EVENT_TYPES.join(", ")}`,
+				),
+			),
+			name: optional(pipe(string(), nonEmpty())),
+			cursor: optional(pipe(string(), regex(/^\d+$/, "Invalid cursor"))),
+			limit: optional(
+				pipe(
+					string(),
+					regex(/^\d+$/, "Limit must be a number"),
+					transform(Number),
+					minValue(1),
+					maxValue(200),
+				),
+				"50",
+			),
+		}),
+	),
+	async (c) => {
+		const { account_id, ...query } = c.req.valid("query");
+
+		if (!c.env.HISTORY_DB) {
+			return c.json({ message: "Change history is not configured" }, 503);
+		}
+
+		c.header("Cache-Control", "no-store");
+
+		try {
+			return c.json(
+				await queryChangeHistory(c.env.HISTORY_DB, account_id, query),
+				200,
+			);
+		} catch (error: unknown) {
+			logger.error(error);
+			return c.json(
+				{
+					message: "Failed to read change history",
+					error: error instanceof Error ? error.message : "Unknown error",
+				},
+				500,
+			);
+		}
+	},
+);
+
+/* -------------------------------------------------------------------------- */
+/*                            Subscription Handlers                           */
+/* -------------------------------------------------------------------------- */
+
+// Strip the signing secret before a subscription leaves the worker
+const toPublicSubscription = ({ secret: _secret, ...rest }: Subscription) =>
+	rest;
+
+// Register Subscriber
+app.post(
+	"/subscriptions",
+	sValidator(
+		"json",
+		object({
+			account_id: accountIdSchema,
+			url: message(
+				pipe(string(), trim(), url("Subscriber URL must be a valid URL")),
+				"Subscriber URL is required",
+			),
+			secret: message(
+				pipe(
+					string(),
+					trim(),
+					minLength(16, "Subscriber secret must be at least 16 characters"),
+				),
+				"Subscriber secret is required",
+			),
+			description: optional(pipe(string(), trim())),
+		}),
+	),
+	async (c) => {
+		const { account_id, ...body } = c.req.valid("json");
+
+		const subscription = await createSubscription(c.env, body, account_id);
+
+		logger.log(`🔔 Subscriber registered: ${subscription.url} (${account_id})`);
+
+		return c.json(
+			{
+				message: "Subscription created",
+				subscription: toPublicSubscription(subscription),
+			},
+			201,
+		);
+	},
+);
+
+// List Subscribers
+app.get(
+	"/subscriptions",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const { account_id } = c.req.valid("query");
+		const subscriptions = await listSubscriptions(c.env, account_id);
+
+		c.header("Cache-Control", "no-store");
+		return c.json(
+			{ subscriptions: subscriptions.map(toPublicSubscription) },
+			200,
+		);
+	},
+);
+
+// Remove Subscriber
+app.delete(
+	"/subscriptions/:id",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const id = c.req.param("id");
+		const { account_id } = c.req.valid("query");
+
+		if (!(await deleteSubscription(c.env, id, account_id))) {
+			return c.json({ message: "Subscription not found" }, 404);
+		}
+
+		logger.log(`🔕 Subscriber removed: ${id} (${account_id})`);
+
+		return c.json({ message: "Subscription deleted", id }, 200);
+	},
+);
+
+// Subscriber Delivery Log
+app.get(
+	"/subscriptions/:id/deliveries",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const id = c.req.param("id");
+		const { account_id } = c.req.valid("query");
+		const subscriptions = await listSubscriptions(c.env, account_id);
+
+		if (!subscriptions.some((sub) => sub.id === id)) {
+			return c.json({ message: "Subscription not found" }, 404);
+		}
+
+		c.header("Cache-Control", "no-store");
+		return c.json(
+			{ id, deliveries: await getDeliveryLog(c.env, id, account_id) },
+			200,
+		);
+	},
+);
+
+/* -------------------------------------------------------------------------- */
+/*                                Rule Handlers                               */
+/* -------------------------------------------------------------------------- */
+
+const folderIdSchema = pipe(
+	string(),
+	trim(),
+	nonEmpty("Folder ID is required"),
+);
+const emailListSchema = array(pipe(string(), trim(), email()));
+
+const ruleConditionsSchema = pipe(
+	object({
+		mime_types: optional(array(pipe(string(), trim(), nonEmpty()))),
+		name_glob: optional(pipe(string(), nonEmpty())),
+		name_pattern: optional(
+			pipe(
+				string(),
+				check(isValidRegExp, "Name pattern must be a valid regex"),
+			),
+		),
+		min_size: optional(pipe(number(), integer(), minValue(0))),
+		max_size: optional(pipe(number(), integer(), minValue(0))),
+		owners: optional(emailListSchema),
+		modified_by: optional(emailListSchema),
+		events: optional(array(picklist(CHANGE_EVENT_TYPES))),
+	}),
+	check(
+		(match) =>
+			match.min_size === undefined ||
+			match.max_size === undefined ||
+			match.min_size <= match.max_size,
+		"min_size cannot exceed max_size",
+	),
+);
+
+const ruleActionSchema = variant("type", [
+	object({
+		type: literal("notify"),
+		destinations: optional(array(pipe(string(), trim()))),
+	}),
+	object({
+		type: literal("tag"),
+		tags: pipe(
+			array(pipe(string(), trim(), nonEmpty())),
+			minLength(1, "Tag actions need at least one tag"),
+		),
+	}),
+	object({ type: literal("ignore") }),
+	object({ type: literal("copy"), folder_id: folderIdSchema }),
+	object({ type: literal("move"), folder_id: folderIdSchema }),
+]);
+
+function toRuleConditions(
+	match: InferOutput<typeof ruleConditionsSchema>,
+): RuleConditions {
+	return {
+		mimeTypes: match.mime_types,
+		nameGlob: match.name_glob,
+		namePattern: match.name_pattern,
+		minSize: match.min_size,
+		maxSize: match.max_size,
+		owners: match.owners,
+		modifiedBy: match.modified_by,
+		events: match.events,
+	};
+}
+
+function toRuleAction(
+	action: InferOutput<typeof ruleActionSchema>,
+): RuleAction {
+	if (action.type === "copy" || action.type === "move") {
+		return { type: action.type, folderId: action.folder_id };
+	}
+	return action;
+}
+
+// Drive-shaped change used for dry runs; only `file.name` is required
+const driveUserSchema = object({
+	displayName: optional(string()),
+	emailAddress: optional(string()),
+});
+
+const sampleChangeSchema = object({
+	type: optional(picklist(CHANGE_EVENT_TYPES)),
+	removed: optional(boolean()),
+	file: object({
+		id: optional(string(), "sample"),
+		name: string("Sample change needs file.name"),
+		mimeType: optional(string()),
+		parents: optional(array(string())),
+		trashed: optional(boolean()),
+		size: optional(
+			pipe(
+				union([string(), number()]),
+				transform((size) => String(size)),
+			),
+		),
+		createdTime: optional(string()),
+		modifiedTime: optional(string()),
+		owners: optional(array(driveUserSchema)),
+		lastModifyingUser: optional(driveUserSchema),
+	}),
+});
+
+// Create Rule
+app.post(
+	"/rules",
+	sValidator(
+		"json",
+		object({
+			account_id: accountIdSchema,
+			folder_id: message(folderIdSchema, "Folder ID is required"),
+			name: optional(pipe(string(), trim())),
+			enabled: optional(boolean(), true),
+			match: optional(ruleConditionsSchema, {}),
+			actions: pipe(
+				array(ruleActionSchema),
+				minLength(1, "At least one action is required"),
+			),
+		}),
+	),
+	async (c) => {
+		const body = c.req.valid("json");
+
+		const folders = await listWatchedFolders(c.env, body.account_id);
+		if (!folders.some((folder) => folder.id === body.folder_id)) {
+			return c.json({ message: "Folder is not watched" }, 400);
+		}
+
+		// 🔏 Copies and moves change the Drive, which needs write access
+		if (
+			body.actions.some(
+				(action) => action.type === "copy" || action.type === "move",
+			)
+		) {
+			const check = await checkScope(c.env, body.account_id, "write");
+			if (!check.ok) return insufficientScope(c, check);
+		}
+
+		const destinations = body.actions.flatMap((action) =>
+			action.type === "notify" ? (action.destinations ?? []) : [],
+		);
+		if (destinations.length) {
+			const known = new Set(
+				(await listSubscriptions(c.env, body.account_id)).map((sub) => sub.id),
+			);
+			const unknown = destinations.filter((id) => !known.has(id));
+
+			if (unknown.length) {
+				return c.json({ message: "Unknown destinations", unknown }, 400);
+			}
+		}
+
+		const rule = await createRule(
+			c.env,
+			{
+				folderId: body.folder_id,
+				name: body.name,
+				enabled: body.enabled,
+				conditions: toRuleConditions(body.match),
+				actions: body.actions.map(toRuleAction),
+			},
+			body.account_id,
+		);
+
+		logger.log(`📐 Rule created: ${rule.name ?? rule.id} (${rule.folderId})`);
+
+		return c.json({ message: "Rule created", rule }, 201);
+	},
+);
+
+// List Rules
+app.get(
+	"/rules",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const { account_id } = c.req.valid("query");
+
+		c.header("Cache-Control", "no-store");
+		return c.json({ rules: await listRules(c.env, account_id) }, 200);
+	},
+);
+
+// Remove Rule
+app.delete(
+	"/rules/:id",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const id = c.req.param("id");
+		const { account_id } = c.req.valid("query");
+
+		if (!(await deleteRule(c.env, id, account_id))) {
+			return c.json({ message: "Rule not found" }, 404);
+		}
+
+		logger.log(`🗑️ Rule removed: ${id}`);
+
+		return c.json({ message: "Rule deleted", id }, 200);
+	},
+);
+
+// Dry-run the rules against a sample change; no action is carried out
+app.post(
+	"/rules/test",
+	sValidator(
+		"json",
+		object({
+			account_id: accountIdSchema,
+			folder_id: optional(folderIdSchema),
+			change: sampleChangeSchema,
+		}),
+	),
+	async (c) => {
+		const body = c.req.valid("json");
+		const change: DriveChange = { ...body.change };
+		change.type = body.change.type ?? classifyChange(change);
+
+		const folders = body.folder_id
+			? [{ id: body.folder_id, createdAt: 0 }]
+			: await listWatchedFolders(c.env, body.account_id);
+
+		const evaluation = evaluateRules(
+			await listRules(c.env, body.account_id),
+			change,
+			folders,
+		);
+
+		return c.json(
+			{
+				type: change.type,
+				ignored: evaluation.folders.length === 0,
+				folders: evaluation.folders.map((folder) => folder.id),
+				tags: evaluation.tags,
+				matched: evaluation.matched.map((rule) => ({
+					id: rule.id,
+					name: rule.name,
+					folderId: rule.folderId,
+				})),
+				actions: evaluation.actions.map(({ rule, action }) => ({
+					ruleId: rule.id,
+					...action,
+				})),
+			},
+			200,
+		);
+	},
+);
+
+/* -------------------------------------------------------------------------- */
+/*                               OAuth Handlers                                */
+/* -------------------------------------------------------------------------- */
+
+// Exchange Google OAuth code for tokens
+app.post(
+	"/oauth/exchange",
+	sValidator(
+		"json",
+		object({
+			account_id: accountIdSchema,
+			auth_code: optional(
+				pipe(string(), trim()),
+				"Google OAuth2 code is required",
+			),
+			client_id: optional(
+				pipe(string(), trim()),
+				"Google Client ID is required",
+			),
+			client_secret: optional(
+				pipe(string(), trim()),
+				"Google Client Secret is required",
+			),
+			redirect_uris: optional(pipe(array(pipe(string(), trim())))),
+		}),
+	),
+	async (c) => {
+		const bodyData = c.req.valid("json");
+		const accountId = bodyData.account_id;
+
+		// Prioritize request body params, fallback to KV
 		const client_id = await getOrUpdateKV(
 			c.env,
-			"client_id",
+			accountKey(accountId, "client_id"),
 			bodyData.client_id,
 		);
 		const client_secret = await getOrUpdateKV(
 			c.env,
-			"client_secret",
+			accountKey(accountId, "client_secret"),
 			bodyData.client_secret,
 		);
 		const redirect_uris =
-			bodyData.redirect_uris || (await c.env.drive_kv.get("redirect_uris"));
+			bodyData.redirect_uris ||
+			(await c.env.drive_kv.get(accountKey(accountId, "redirect_uris")));
 		const auth_code = await getOrUpdateKV(
 			c.env,
-			"auth_code",
+			accountKey(accountId, "auth_code"),
 			bodyData.auth_code,
 		);
+		// The stored client secret must stay in reach of /secrets/reseal
+		await registerAccount(c.env, accountId);
 
 		if (!auth_code) {
 			logger.error("❌ Missing Google OAuth code");
@@ -564,20 +1536,14 @@ app.post(
 				auth_code,
 			);
 
-			await Promise.all([
-				c.env.drive_kv.put("accessToken", token.access_token ?? ""),
-				c.env.drive_kv.put(
-					"accessTokenExpiry",
-					token.expiry_date?.toString() ?? "",
-				),
-				c.env.drive_kv.put("refreshToken", token.refresh_token ?? ""),
-			]);
+			await storeTokens(c.env, accountId, token);
 
-			logger.log("✅ OAuth tokens stored in KV");
+			logger.log(`✅ OAuth tokens stored in KV (${accountId})`);
 
 			return c.json(
 				{
 					message: "Token exchange successful",
+					accountId,
 					accessToken: token.access_token,
 					refreshToken: token.refresh_token,
 					expiry_date: token.expiry_date,
@@ -597,31 +1563,110 @@ app.post(
 	},
 );
 
-// Google OAuth redirect callback
+// Google OAuth redirect callback; finishes the flow started by /oauth/url
 app.get(
 	"/oauth/callback",
 	sValidator(
 		"query",
 		object({
-			code: message(string(), "OAuth2 code is required"),
+			code: optional(string()),
+			state: optional(string()),
+			error: optional(string()),
 		}),
 	),
 	async (c) => {
-		const query = c.req.valid("query");
-		const gAuthCode = query.code;
+		const { code, state, error } = c.req.valid("query");
+		c.header("Cache-Control", "no-store");
+
+		// Only links made by /oauth/url are accepted
+		if (!state) {
+			logger.warn("⚠️ OAuth callback without a state");
+			return c.html(
+				authorizationPage({
+					ok: false,
+					title: "Invalid sign-in link",
+					details: [
+						"This callback only accepts sign-in links created by POST /oauth/url.",
+					],
+				}),
+				400,
+			);
+		}
+
+		// The state is single-use, whatever the outcome
+		const lookup = await takePendingAuthorization(c.env, state);
+
+		if (error) {
+			logger.warn(`⚠️ Google OAuth2 consent not granted: ${error}`);
+			return c.html(
+				authorizationPage({
+					ok: false,
+					title: "Authorization was not granted",
+					details: [
+						`Google reported: ${error}.`,
+						"Generate a new sign-in link with POST /oauth/url to try again.",
+					],
+				}),
+				400,
+			);
+		}
 
-		if (!gAuthCode) {
-			return c.json({ message: "❌ No OAuth2 code found in request" }, 400);
+		if (!lookup.ok) {
+			return c.html(
+				authorizationPage({
+					ok: false,
+					title:
+						lookup.reason === "expired_state"
+							? "Sign-in link expired"
+							: "Invalid sign-in link",
+					details: [
+						"This sign-in link is unknown, expired or already used.",
+						"Generate a new one with POST /oauth/url.",
+					],
+				}),
+				400,
+			);
 		}
 
-		logger.log(`🔑 OAuth2 code received`);
-		await c.env.drive_kv.put("auth_code", gAuthCode);
+		if (!code) {
+			return c.html(
+				authorizationPage({
+					ok: false,
+					title: "No authorization code",
+					details: ["Google did not send an authorization code."],
+				}),
+				400,
+			);
+		}
 
-		return c.json(
-			{
-				message: "✅ Google OAuth2 code stored. You can close this tab.",
-				auth_code: gAuthCode,
-			},
+		const result = await completeAuthorization(c.env, lookup.pending, code);
+
+		if (!result.ok) {
+			return c.html(
+				authorizationPage({
+					ok: false,
+					title: "Authorization failed",
+					details: [result.message],
+				}),
+				result.status,
+			);
+		}
+
+		const details = [`Account "${result.accountId}" is connected.`];
+		if (result.channelId) {
+			details.push("Drive changes are now being watched.");
+		} else if (result.startPageToken) {
+			details.push("Change tracking is initialized.");
+		}
+		if (result.warning) details.push(`${result.warning}.`);
+		details.push("You can close this tab.");
+
+		return c.html(
+			authorizationPage({
+				ok: true,
+				title: "Google Drive connected",
+				details,
+			}),
 			200,
 		);
 	},
@@ -652,23 +1697,72 @@ app.post(
 				),
 				"Redirect URIs must be an array of strings",
 			),
+			account_id: accountIdSchema,
+			scope_profile: optional(
+				picklist(
+					Object.keys(SCOPE_PROFILES) as ScopeProfile[],
+					`Scope profile must be one of: ${Object.keys(SCOPE_PROFILES).join(", ")}`,
+				),
+				DEFAULT_SCOPE_PROFILE,
+			),
+			init_tracking: optional(boolean(), false),
+			drive_id: optional(pipe(string(), trim())),
+			worker_drive_webhook_url: optional(
+				pipe(string(), trim(), url("Worker Drive Webhook URL is invalid")),
+			),
 		}),
 	),
 	async (c) => {
-		const secrets = (await c.req.valid("json")) as OAuthSecrets["web"];
+		const body = c.req.valid("json");
+		const accountId = body.account_id;
+		const secrets: OAuthSecrets["web"] = {
+			client_id: body.client_id,
+			client_secret: body.client_secret,
+			redirect_uris: body.redirect_uris,
+		};
+
+		// 🗝️ The callback exchanges the code with the account's stored client;
+		// registering the account now keeps its secret in reach of a reseal
+		await Promise.all([
+			registerAccount(c.env, accountId),
+			c.env.drive_kv.put(accountKey(accountId, "client_id"), body.client_id),
+			putSecret(
+				c.env,
+				accountKey(accountId, "client_secret"),
+				body.client_secret,
+			),
+			c.env.drive_kv.put(
+				accountKey(accountId, "redirect_uris"),
+				JSON.stringify(body.redirect_uris),
+			),
+		]);
 
-		const authUrl = generateAuthUrl(secrets);
+		const authorization = await createPendingAuthorization(c.env, {
+			accountId,
+			redirectUri: body.redirect_uris[0],
+			initTracking: body.init_tracking,
+			driveId: body.drive_id || null,
+			webhookUrl: body.worker_drive_webhook_url,
+		});
+
+		const authUrl = generateAuthUrl(secrets, {
+			profile: body.scope_profile,
+			authorization,
+		});
 
 		if (!authUrl) {
 			logger.error("❌ Failed to generate OAuth2 URL");
 			return c.json({ message: "Failed to generate OAuth2 URL" }, 500);
 		}
 
-		logger.log("✅ OAuth2 URL generated");
+		logger.log(`✅ OAuth2 URL generated (${accountId}, ${body.scope_profile})`);
 
 		return c.json(
 			{
 				auth_url: authUrl,
+				state: authorization.state,
+				scope_profile: body.scope_profile,
+				expires_in: PENDING_TTL_S,
 				message: "🔗 Use this URL to authorize the application",
 			},
 			200,
@@ -676,6 +1770,119 @@ app.post(
 	},
 );
 
+// Disconnect an account: stop its channels, revoke its grant, purge its tokens
+app.post(
+	"/oauth/revoke",
+	sValidator("json", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const accountId = c.req.valid("json").account_id;
+		const result = await disconnectAccount(c.env, accountId);
+
+		if (!result.ok) {
+			return c.json(
+				{ message: result.message, error: result.error },
+				result.status,
+			);
+		}
+
+		return c.json({ message: "Account disconnected", ...result.report }, 200);
+	},
+);
+
+/* -------------------------------------------------------------------------- */
+/*                               Secret Storage                               */
+/* -------------------------------------------------------------------------- */
+
+// Encrypt plaintext credentials and re-encrypt those under MASTER_KEY_PREVIOUS
+app.post("/secrets/reseal", async (c) => {
+	try {
+		const report = await resealSecrets(c.env);
+		logger.log(
+			`🔐 Secrets resealed: ${report.migrated} migrated, ${report.rotated} rotated`,
+		);
+
+		return c.json({ message: "Secrets resealed", ...report }, 200);
+	} catch (error: unknown) {
+		logger.error(error);
+		return c.json(
+			{
+				message: "Failed to reseal secrets",
+				error: error instanceof Error ? error.message : "Unknown error",
+			},
+			500,
+		);
+	}
+});
+
+/* -------------------------------------------------------------------------- */
+/*                                Dead Letters                                */
+/* -------------------------------------------------------------------------- */
+
+// List change jobs that exhausted their retries
+app.get(
+	"/jobs/dead",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const { account_id } = c.req.valid("query");
+
+		c.header("Cache-Control", "no-store");
+		return c.json({ jobs: await listDeadJobs(c.env, account_id) }, 200);
+	},
+);
+
+// Put a dead job back on the change queue
+app.post(
+	"/jobs/dead/:id/requeue",
+	sValidator("json", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const id = c.req.param("id");
+		const { account_id } = c.req.valid("json");
+
+		try {
+			const dead = await requeueDeadJob(c.env, id, account_id);
+
+			if (!dead) {
+				return c.json({ message: "Dead job not found" }, 404);
+			}
+
+			logger.log(`♻️ Requeued dead job ${id} (${account_id})`);
+			return c.json({ message: "Job requeued", job: dead.job }, 200);
+		} catch (error: unknown) {
+			logger.error(error);
+			return c.json(
+				{
+					message: "Failed to requeue job",
+					error: error instanceof Error ? error.message : "Unknown error",
+				},
+				500,
+			);
+		}
+	},
+);
+
+/* -------------------------------------------------------------------------- */
+/*                                  R2 Mirror                                 */
+/* -------------------------------------------------------------------------- */
+
+// Report what the mirror has copied, skipped and failed for an account
+app.get(
+	"/mirror/status",
+	sValidator("query", object({ account_id: accountIdSchema })),
+	async (c) => {
+		const { account_id } = c.req.valid("query");
+
+		c.header("Cache-Control", "no-store");
+		return c.json(
+			{
+				enabled: Boolean(c.env.MIRROR_BUCKET),
+				keyTemplate: c.env.MIRROR_KEY_TEMPLATE || DEFAULT_MIRROR_KEY_TEMPLATE,
+				...(await getMirrorStatus(c.env, account_id)),
+			},
+			200,
+		);
+	},
+);
+
 /* -------------------------------------------------------------------------- */
 /*                                  Root & Health                             */
 /* -------------------------------------------------------------------------- */
@@ -687,8 +1894,37 @@ app.get("/", (c) => {
 	);
 });
 
-app.get("/health", (c) => {
-	return c.json({ status: "OK", timestamp: Date.now() }, 200);
+// Public, so it only says how many accounts are affected
+app.get("/health", async (c) => {
+	const reauthRequired = (await listReauthRequired(c.env)).length;
+
+	return c.json(
+		{
+			status: reauthRequired ? "DEGRADED" : "OK",
+			timestamp: Date.now(),
+			...(reauthRequired && { reauthRequired }),
+		},
+		200,
+	);
+});
+
+// Which accounts need to be authorized again, and since when
+app.get("/health/accounts", async (c) => {
+	const accounts = await listReauthRequired(c.env);
+	const states = await Promise.all(
+		accounts.map((accountId) => getReauthState(c.env, accountId)),
+	);
+
+	c.header("Cache-Control", "no-store");
+	return c.json(
+		{
+			reauthRequired: accounts.flatMap((accountId, index) => {
+				const state = states[index];
+				return state ? [{ accountId, ...state }] : [];
+			}),
+		},
+		200,
+	);
 });
 
 // Define the scheduled function
@@ -705,10 +1941,42 @@ async function scheduled(
 	// You can access environment variables here
 	logger.log("Accessing secret in cron handler:", env.CLOUDFLARE_API_TOKEN);
 
-	await ctx.waitUntil(renewDriveWatchIfNeeded(env));
+	const accounts: string[] = [];
+	for (const accountId of await listAccounts(env)) {
+		// Renewing needs a token; a refused grant has to be re-authorized first
+		if (await getReauthState(env, accountId)) {
+			logger.warn(
+				`⚠️ Skipping renewals, re-authorization required (${accountId})`,
+			);
+			continue;
+		}
+		accounts.push(accountId);
+	}
+
+	await ctx.waitUntil(
+		Promise.allSettled(
+			accounts.flatMap((accountId) => [
+				renewDriveWatchIfNeeded(env, accountId),
+				renewFileWatchesIfNeeded(env, accountId),
+			]),
+		),
+	);
+}
+
+// Route queue batches to the change consumer or the dead-letter parking lot
+async function queue(batch: MessageBatch<QueueJob>, env: AppBindings) {
+	if (batch.queue === DEAD_LETTER_QUEUE_NAME) {
+		return consumeDeadJobs(batch, env);
+	}
+
+	return consumeChangeJobs(batch, env);
 }
 
+export { ChangeProcessor } from "./processor";
+export { RateLimiter } from "./ratelimit";
+
 export default {
 	fetch: app.fetch, // Hono handles all incoming HTTP requests
 	scheduled, // This handles cron events
+	queue, // This handles change jobs and dead letters
 };
@@ -0,0 +1,205 @@
+import type { Message, MessageBatch } from "@cloudflare/workers-types";
+import { accountKey, DEFAULT_ACCOUNT_ID } from "./accounts";
+import { processChanges } from "./processor";
+import { deliverToSubscribers, runDelivery } from "./subscriptions";
+import type {
+	AppBindings,
+	ChangeJob,
+	DeadJob,
+	DeliveryJob,
+	FileWatchJob,
+	QueueJob,
+} from "./types";
+import { logger } from "./utils";
+
+/* -------------------------------------------------------------------------- */
+/*                                Change Queue                                */
+/* -------------------------------------------------------------------------- */
+
+/** Dead-letter queue name as declared in `wrangler.toml` */
+export const DEAD_LETTER_QUEUE_NAME = "drive-changes-dlq";
+
+const MAX_RETRY_DELAY_SECONDS = 900;
+
+// 30s, 60s, 120s… so a Drive outage is not hammered by retries
+function retryDelay(attempts: number) {
+	return Math.min(30 * 2 ** (attempts - 1), MAX_RETRY_DELAY_SECONDS);
+}
+
+export async function enqueueChanges(env: AppBindings, job: ChangeJob) {
+	await env.CHANGE_QUEUE.send(job);
+}
+
+async function processAccount(
+	env: AppBindings,
+	accountId: string,
+	messages: Message<QueueJob>[],
+) {
+	try {
+		const outcome = await processChanges(env, { accountId });
+
+		// fetchAndLogChanges reports Drive API failures as a string
+		if (outcome.status === "processed" && typeof outcome.result === "string") {
+			throw new Error(outcome.result);
+		}
+
+		// Retrying cannot fix missing configuration or a refused grant
+		if (outcome.status === "misconfigured") {
+			logger.warn(`⚠️ Dropping change job, Drive not configured (${accountId})`);
+		}
+
+		if (outcome.status === "reauth_required") {
+			logger.warn(
+				`⚠️ Dropping change job, re-authorization required (${accountId})`,
+			);
+		}
+
+		for (const message of messages) message.ack();
+	} catch (error: unknown) {
+		logger.error(`🚨 Change job failed (${accountId})`, error);
+
+		for (const message of messages) {
+			message.retry({ delaySeconds: retryDelay(message.attempts) });
+		}
+	}
+}
+
+type SubscriberJob = DeliveryJob | FileWatchJob;
+
+// Deliveries queue their own retries; this only covers unexpected errors
+async function processSubscriberJob(
+	env: AppBindings,
+	message: Message<SubscriberJob>,
+) {
+	const job = message.body;
+
+	try {
+		if (job.kind === "delivery") {
+			await runDelivery(env, job);
+		} else {
+			await deliverToSubscribers(
+				env,
+				job.accountId,
+				`file_watch.${job.state}`,
+				{ fileId: job.fileId, state: job.state, changed: job.changed },
+			);
+		}
+
+		message.ack();
+	} catch (error: unknown) {
+		logger.error(`🚨 Subscriber job failed (${job.accountId})`, error);
+		message.retry({ delaySeconds: retryDelay(message.attempts) });
+	}
+}
+
+const isSubscriberJob = (
+	message: Message<QueueJob>,
+): message is Message<SubscriberJob> =>
+	message.body.kind === "delivery" || message.body.kind === "file_watch";
+
+/**
+ * Consumer for `drive-changes`. Subscriber jobs run side by side; change
+ * notifications are grouped by account, since one run walks the whole change
+ * feed and so answers every message in the group.
+ */
+export async function consumeChangeJobs(
+	batch: MessageBatch<QueueJob>,
+	env: AppBindings,
+) {
+	const subscriberJobs: Message<SubscriberJob>[] = [];
+	const byAccount = new Map<string, Message<QueueJob>[]>();
+
+	for (const message of batch.messages) {
+		if (isSubscriberJob(message)) {
+			subscriberJobs.push(message);
+			continue;
+		}
+
+		const group = byAccount.get(message.body.accountId) ?? [];
+		group.push(message);
+		byAccount.set(message.body.accountId, group);
+	}
+
+	await Promise.all(
+		subscriberJobs.map((message) => processSubscriberJob(env, message)),
+	);
+
+	for (const [accountId, messages] of byAccount) {
+		await processAccount(env, accountId, messages);
+	}
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Dead Letters                                */
+/* -------------------------------------------------------------------------- */
+
+const DEAD_JOBS_KEY = "dead_jobs";
+const MAX_DEAD_JOBS = 100;
+
+export async function listDeadJobs(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<DeadJob[]> {
+	const raw = await env.drive_kv.get(accountKey(accountId, DEAD_JOBS_KEY));
+	return raw ? (JSON.parse(raw) as DeadJob[]) : [];
+}
+
+async function saveDeadJobs(
+	env: AppBindings,
+	accountId: string,
+	jobs: DeadJob[],
+) {
+	await env.drive_kv.put(
+		accountKey(accountId, DEAD_JOBS_KEY),
+		JSON.stringify(jobs.slice(-MAX_DEAD_JOBS)),
+	);
+}
+
+/** Consumer for `drive-changes-dlq`: park jobs until someone requeues them */
+export async function consumeDeadJobs(
+	batch: MessageBatch<QueueJob>,
+	env: AppBindings,
+) {
+	const byAccount = new Map<string, DeadJob[]>();
+
+	for (const message of batch.messages) {
+		const { accountId } = message.body;
+		logger.error(`💀 Queue job dead-lettered (${accountId})`, message.id);
+
+		const jobs = byAccount.get(accountId) ?? [];
+		jobs.push({
+			id: message.id,
+			job: message.body,
+			attempts: message.attempts,
+			deadAt: Date.now(),
+		});
+		byAccount.set(accountId, jobs);
+	}
+
+	for (const [accountId, dead] of byAccount) {
+		const jobs = await listDeadJobs(env, accountId);
+		await saveDeadJobs(env, accountId, [...jobs, ...dead]);
+	}
+	batch.ackAll();
+}
+
+/** Send a dead job back to `drive-changes`; `null` when the ID is unknown */
+export async function requeueDeadJob(
+	env: AppBindings,
+	id: string,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<DeadJob | null> {
+	const jobs = await listDeadJobs(env, accountId);
+	const dead = jobs.find((job) => job.id === id);
+
+	if (!dead) return null;
+
+	await env.CHANGE_QUEUE.send(dead.job);
+	await saveDeadJobs(
+		env,
+		accountId,
+		jobs.filter((job) => job.id !== id),
+	);
+
+	return dead;
+}
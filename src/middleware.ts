@@ -1,56 +1,139 @@
-import type { MiddlewareHandler } from "hono";
+import type { Context, MiddlewareHandler } from "hono";
+import { isVerifiedNotification } from "./helper";
+import { takeToken } from "./ratelimit";
+import type { AppBindings } from "./types";
+import { logger } from "./utils";
 
-type RateLimitOptions = {
-	windowMs: number;
-	max: number;
-	keyPrefix?: string;
+type AppContext = Context<{ Bindings: AppBindings }>;
+
+export type RateLimitPolicy = {
+	/** Policy name, used in bucket keys and `RATE_LIMITS` overrides */
+	name: string;
+	/** Paths covered; a trailing `*` matches any suffix */
+	paths: string[];
+	/** Requests allowed per window */
+	limit: number;
+	/** Window length in seconds */
+	window: number;
+	/** Requests that skip the limit entirely */
+	exempt?: (c: AppContext) => Promise<boolean>;
 };
 
-export function rateLimit({
-	windowMs,
-	max,
-	keyPrefix = "ratelimit",
-}: RateLimitOptions): MiddlewareHandler {
+// Verified pushes come from Google and are paced by Drive, not by clients
+async function isGooglePush(c: AppContext) {
+	const channelId = c.req.header("X-Goog-Channel-ID");
+	if (!channelId) return false;
+
+	return isVerifiedNotification(c.env, {
+		channelId,
+		channelToken: c.req.header("X-Goog-Channel-Token"),
+		resourceId: c.req.header("X-Goog-Resource-ID"),
+		messageNumber: c.req.header("X-Goog-Message-Number"),
+	});
+}
+
+/** First matching policy wins; unmatched routes are not limited */
+export const RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+	{ name: "health", paths: ["/", "/health"], limit: 60, window: 60 },
+	{
+		name: "webhook",
+		paths: ["/drive/webhook"],
+		limit: 60,
+		window: 60,
+		exempt: isGooglePush,
+	},
+	{ name: "drive", paths: ["/drive/*"], limit: 5, window: 60 },
+];
+
+function matchesPath(patterns: string[], path: string) {
+	return patterns.some((pattern) =>
+		pattern.endsWith("*")
+			? path.startsWith(pattern.slice(0, -1))
+			: path === pattern,
+	);
+}
+
+// `RATE_LIMITS` var: `{"drive": {"limit": 30, "window": 60}}`
+function overrides(env: AppBindings) {
+	if (!env.RATE_LIMITS) return {};
+
+	try {
+		return JSON.parse(env.RATE_LIMITS) as Record<
+			string,
+			Partial<Pick<RateLimitPolicy, "limit" | "window">>
+		>;
+	} catch {
+		logger.warn("⚠️ RATE_LIMITS is not valid JSON; using default limits");
+		return {};
+	}
+}
+
+async function fingerprint(value: string) {
+	const digest = new Uint8Array(
+		await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)),
+	);
+	return Array.from(digest.slice(0, 8))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+// Callers holding the API key share its bucket; everyone else is keyed by IP
+async function clientKey(c: AppContext) {
+	const token = c.req.header("Authorization")?.replace(/^Bearer\s+/i, "");
+	if (token && token === c.env.WEBHOOK_AUTH_KEY) {
+		return `key:${await fingerprint(token)}`;
+	}
+
+	const ip =
+		c.req.header("cf-connecting-ip") ??
+		c.req.header("x-forwarded-for") ??
+		"unknown";
+	return `ip:${ip}`;
+}
+
+/**
+ * Token-bucket limits per route policy, counted by the `RateLimiter` Durable
+ * Object. Responses carry `RateLimit-*` headers, and `Retry-After` once the
+ * bucket is empty.
+ */
+export function rateLimit(
+	policies: RateLimitPolicy[] = RATE_LIMIT_POLICIES,
+): MiddlewareHandler<{ Bindings: AppBindings }> {
 	return async (c, next) => {
-		const ip =
-			c.req.header("cf-connecting-ip") ??
-			c.req.header("x-forwarded-for") ??
-			"unknown";
-
-		const route = c.req.path;
-		const key = `${keyPrefix}:${ip}:${route}`;
-		const now = Date.now();
-
-		const existing = (await c.env.drive_kv.get(key, "json")) as {
-			count: number;
-			resetAt: number;
-		} | null;
-
-		// Helper: KV TTL must be >= 60
-		const ttl = (ms: number) => Math.max(Math.ceil(ms / 1000), 60);
-
-		if (existing && now < existing.resetAt) {
-			if (existing.count >= max) {
-				return c.json(
-					{
-						message: "Too many requests",
-						retryAfter: Math.ceil((existing.resetAt - now) / 1000),
-					},
-					429,
-				);
-			}
-
-			existing.count += 1;
-
-			await c.env.drive_kv.put(key, JSON.stringify(existing), {
-				expirationTtl: ttl(existing.resetAt - now),
-			});
-		} else {
-			const resetAt = now + windowMs;
-
-			await c.env.drive_kv.put(key, JSON.stringify({ count: 1, resetAt }), {
-				expirationTtl: ttl(windowMs),
-			});
+		const policy = policies.find((candidate) =>
+			matchesPath(candidate.paths, c.req.path),
+		);
+		if (!policy || (await policy.exempt?.(c))) return next();
+
+		const { limit, window } = { ...policy, ...overrides(c.env)[policy.name] };
+
+		let decision: Awaited<ReturnType<typeof takeToken>>;
+		try {
+			decision = await takeToken(
+				c.env,
+				`${policy.name}:${await clientKey(c)}`,
+				{ limit, window },
+			);
+		} catch (error: unknown) {
+			// Fail open: a limiter outage should not take the API down with it
+			logger.error(
+				"🚨 Rate limiter unavailable",
+				error instanceof Error ? error.message : error,
+			);
+			return next();
+		}
+
+		c.header("RateLimit-Policy", `${limit};w=${window}`);
+		c.header("RateLimit-Limit", String(decision.limit));
+		c.header("RateLimit-Remaining", String(decision.remaining));
+		c.header("RateLimit-Reset", String(decision.reset));
+
+		if (!decision.allowed) {
+			c.header("Retry-After", String(decision.retryAfter));
+			return c.json(
+				{ message: "Too many requests", retryAfter: decision.retryAfter },
+				429,
+			);
 		}
 
 		return await next();
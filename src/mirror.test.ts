@@ -0,0 +1,206 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { R2Bucket } from "@cloudflare/workers-types";
+import type { DriveChange } from "./drive";
+import { getMirrorStatus, mirrorChange, mirrorKey } from "./mirror";
+import { createMockEnv, mockFetch } from "./testing";
+import type { AppBindings, WatchedFolder } from "./types";
+
+interface StoredObject {
+	body: string;
+	streamed: boolean;
+	contentType?: string;
+	customMetadata?: Record<string, string>;
+}
+
+// Mock R2 bucket
+class MockR2 {
+	objects = new Map<string, StoredObject>();
+
+	async put(
+		key: string,
+		value: ReadableStream | ArrayBuffer,
+		options: {
+			httpMetadata?: { contentType?: string };
+			customMetadata?: Record<string, string>;
+		} = {},
+	) {
+		this.objects.set(key, {
+			body: await new Response(value).text(),
+			streamed: value instanceof ReadableStream,
+			contentType: options.httpMetadata?.contentType,
+			customMetadata: options.customMetadata,
+		});
+	}
+}
+
+const folders: WatchedFolder[] = [{ id: "folder", createdAt: 0 }];
+
+const pdfChange = (md5Checksum: string): DriveChange => ({
+	file: {
+		id: "file_1",
+		name: "report.pdf",
+		mimeType: "application/pdf",
+		parents: ["folder"],
+		modifiedTime: "2026-01-01T00:00:00.000Z",
+		md5Checksum,
+		headRevisionId: `rev_${md5Checksum}`,
+	},
+});
+
+describe("mirrorKey", () => {
+	test("fills placeholders and drops the empty path", () => {
+		expect(
+			mirrorKey("{folderId}/{path}{name}@{revision}", {
+				accountId: "default",
+				folderId: "folder",
+				fileId: "file_1",
+				path: "",
+				name: "report.pdf",
+				revision: "rev_1",
+			}),
+		).toBe("folder/report.pdf@rev_1");
+	});
+
+	test("leaves unknown placeholders as written", () => {
+		expect(
+			mirrorKey("{accountId}/{unknown}/{fileId}", {
+				accountId: "team_b",
+				folderId: "folder",
+				fileId: "file_1",
+				path: "",
+				name: "report.pdf",
+				revision: "rev_1",
+			}),
+		).toBe("team_b/{unknown}/file_1");
+	});
+});
+
+describe("mirrorChange", () => {
+	let bucket: MockR2;
+	let mockEnv: AppBindings;
+
+	beforeEach(() => {
+		bucket = new MockR2();
+		mockEnv = createMockEnv({
+			MIRROR_BUCKET: bucket as unknown as R2Bucket,
+		});
+	});
+
+	test("copies the file with its Drive metadata", async () => {
+		mockFetch(() =>
+			Promise.resolve(
+				new Response("pdf bytes", {
+					headers: {
+						"Content-Type": "application/pdf",
+						"Content-Length": "9",
+					},
+				}),
+			),
+		);
+
+		await mirrorChange(mockEnv, "default", "token", pdfChange("md5_a"), folders);
+
+		expect(bucket.objects.get("folder/report.pdf@rev_md5_a")).toEqual({
+			body: "pdf bytes",
+			streamed: true,
+			contentType: "application/pdf",
+			customMetadata: {
+				fileId: "file_1",
+				md5Checksum: "md5_a",
+				modifiedTime: "2026-01-01T00:00:00.000Z",
+			},
+		});
+		expect(await getMirrorStatus(mockEnv, "default")).toMatchObject({
+			mirrored: 1,
+			skipped: 0,
+			lastKey: "folder/report.pdf@rev_md5_a",
+		});
+	});
+
+	test("skips files whose checksum has not changed", async () => {
+		const fetchMock = mockFetch(() => Promise.resolve(new Response("pdf bytes")));
+
+		await mirrorChange(mockEnv, "default", "token", pdfChange("md5_a"), folders);
+		await mirrorChange(mockEnv, "default", "token", pdfChange("md5_a"), folders);
+		await mirrorChange(mockEnv, "default", "token", pdfChange("md5_b"), folders);
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect([...bucket.objects.keys()]).toEqual([
+			"folder/report.pdf@rev_md5_a",
+			"folder/report.pdf@rev_md5_b",
+		]);
+		expect(await getMirrorStatus(mockEnv, "default")).toMatchObject({
+			mirrored: 2,
+			skipped: 1,
+		});
+	});
+
+	test("keys files in subfolders of recursive folders by path", async () => {
+		mockFetch(() => Promise.resolve(new Response("pdf bytes")));
+
+		await mirrorChange(
+			mockEnv,
+			"default",
+			"token",
+			{ file: { ...pdfChange("md5_a").file!, parents: ["deep"] } },
+			[{ id: "folder", recursive: true, createdAt: 0 }],
+			new Map([["folder", { depth: 3, path: ["Reports", "2026/Q1"] }]]),
+		);
+
+		expect([...bucket.objects.keys()]).toEqual([
+			"folder/Reports/2026_Q1/report.pdf@rev_md5_a",
+		]);
+	});
+
+	test("exports Google Docs as PDF", async () => {
+		const fetchMock = mockFetch(() => Promise.resolve(new Response("exported")));
+
+		await mirrorChange(
+			mockEnv,
+			"default",
+			"token",
+			{
+				file: {
+					id: "doc_1",
+					name: "Notes",
+					mimeType: "application/vnd.google-apps.document",
+					parents: ["folder"],
+					version: "7",
+				},
+			},
+			folders,
+		);
+
+		expect(String(fetchMock.mock.calls[0]?.[0])).toContain("/files/doc_1/export");
+		expect(bucket.objects.has("folder/Notes.pdf@7")).toBe(true);
+	});
+
+	test("records failures without throwing", async () => {
+		mockFetch(() =>
+			Promise.resolve(new Response("nope", { status: 500 })),
+		);
+
+		await mirrorChange(mockEnv, "default", "token", pdfChange("md5_a"), folders);
+
+		expect(bucket.objects.size).toBe(0);
+		expect(await getMirrorStatus(mockEnv, "default")).toMatchObject({
+			mirrored: 0,
+			failed: 1,
+			lastError: { fileId: "file_1", message: "Drive download failed (500)" },
+		});
+	});
+
+	test("does nothing without a bucket binding", async () => {
+		const fetchMock = mockFetch(() => Promise.resolve(new Response("pdf bytes")));
+
+		await mirrorChange(
+			{ ...mockEnv, MIRROR_BUCKET: undefined },
+			"default",
+			"token",
+			pdfChange("md5_a"),
+			folders,
+		);
+
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,220 @@
+import type {
+	R2Bucket,
+	ReadableStream as R2Stream,
+} from "@cloudflare/workers-types";
+import { accountKey } from "./accounts";
+import type { FolderAncestry } from "./ancestry";
+import { isGoogleNative, streamDownload } from "./download";
+import type { DriveChange } from "./drive";
+import { isInsideFolder } from "./folders";
+import type { AppBindings, MirrorStatus, WatchedFolder } from "./types";
+import { logger } from "./utils";
+
+/* -------------------------------------------------------------------------- */
+/*                                 Key Layout                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Placeholders: `{accountId}`, `{folderId}`, `{fileId}`, `{path}` (folders
+ * between the watched folder and the file, with a trailing `/`), `{name}`
+ * and `{revision}`.
+ */
+export const DEFAULT_MIRROR_KEY_TEMPLATE = "{folderId}/{path}{name}@{revision}";
+
+export type MirrorKeyParts = Record<
+	"accountId" | "folderId" | "fileId" | "path" | "name" | "revision",
+	string
+>;
+
+export function mirrorKey(template: string, parts: MirrorKeyParts): string {
+	return template
+		.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+			name in parts ? parts[name as keyof MirrorKeyParts] : placeholder,
+		)
+		.replace(/\/{2,}/g, "/")
+		.replace(/^\//, "");
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Mirror State                                */
+/* -------------------------------------------------------------------------- */
+
+/** Last copy written for a file in one watched folder */
+interface MirroredFile {
+	key: string;
+	fingerprint: string;
+	mirroredAt: number;
+}
+
+const EMPTY_STATUS: MirrorStatus = { mirrored: 0, skipped: 0, failed: 0 };
+
+function mirroredFileKey(accountId: string, folderId: string, fileId: string) {
+	return accountKey(accountId, `mirror_file:${folderId}:${fileId}`);
+}
+
+export async function getMirrorStatus(
+	env: AppBindings,
+	accountId: string,
+): Promise<MirrorStatus> {
+	const raw = await env.drive_kv.get(accountKey(accountId, "mirror_status"));
+	return raw ? (JSON.parse(raw) as MirrorStatus) : { ...EMPTY_STATUS };
+}
+
+async function recordOutcome(
+	env: AppBindings,
+	accountId: string,
+	outcome: "mirrored" | "skipped" | "failed",
+	details: Partial<MirrorStatus> = {},
+) {
+	const status = await getMirrorStatus(env, accountId);
+	status[outcome] += 1;
+
+	await env.drive_kv.put(
+		accountKey(accountId, "mirror_status"),
+		JSON.stringify({ ...status, ...details }),
+	);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 R2 Mirror                                  */
+/* -------------------------------------------------------------------------- */
+
+// Drive names may contain `/`, which would add levels to the key
+function safeSegment(name: string) {
+	return name.replace(/\//g, "_");
+}
+
+// Fetch hands back the runtime's own stream; only the DOM lib declares it apart
+function isR2Stream(body: unknown): body is R2Stream {
+	return body instanceof ReadableStream;
+}
+
+// Docs, Sheets and Slides have no md5Checksum; their edit time stands in
+function fingerprintOf(file: NonNullable<DriveChange["file"]>) {
+	return file.md5Checksum ?? `modified:${file.modifiedTime}`;
+}
+
+async function mirrorFile(
+	env: AppBindings,
+	bucket: R2Bucket,
+	accountId: string,
+	accessToken: string,
+	folder: WatchedFolder,
+	file: NonNullable<DriveChange["file"]>,
+	path: string[],
+) {
+	const stateKey = mirroredFileKey(accountId, folder.id, file.id);
+	const fingerprint = fingerprintOf(file);
+
+	const previous = await env.drive_kv.get(stateKey);
+	if (
+		previous &&
+		(JSON.parse(previous) as MirroredFile).fingerprint === fingerprint
+	) {
+		await recordOutcome(env, accountId, "skipped");
+		return;
+	}
+
+	const exportAs = isGoogleNative(file.mimeType ?? "") ? "pdf" : undefined;
+	const key = mirrorKey(
+		env.MIRROR_KEY_TEMPLATE || DEFAULT_MIRROR_KEY_TEMPLATE,
+		{
+			accountId,
+			folderId: folder.id,
+			fileId: file.id,
+			path: path.map((name) => `${safeSegment(name)}/`).join(""),
+			name: `${safeSegment(file.name)}${exportAs ? `.${exportAs}` : ""}`,
+			revision: file.headRevisionId ?? file.version ?? "0",
+		},
+	);
+
+	const download = await streamDownload(
+		accessToken,
+		{
+			ok: true,
+			file: {
+				id: file.id,
+				name: file.name,
+				mimeType: file.mimeType ?? "application/octet-stream",
+			},
+			exportAs,
+		},
+		new Headers(),
+	);
+
+	if (!(download instanceof Response)) {
+		throw new Error(download.message);
+	}
+
+	// R2 needs a known length; exports arrive chunked and are small enough to buffer
+	const body =
+		download.headers.has("Content-Length") && isR2Stream(download.body)
+			? download.body
+			: await download.arrayBuffer();
+
+	await bucket.put(key, body, {
+		httpMetadata: {
+			contentType: download.headers.get("Content-Type") ?? undefined,
+		},
+		customMetadata: {
+			fileId: file.id,
+			md5Checksum: file.md5Checksum ?? "",
+			modifiedTime: file.modifiedTime ?? "",
+		},
+	});
+
+	const mirrored: MirroredFile = { key, fingerprint, mirroredAt: Date.now() };
+	await env.drive_kv.put(stateKey, JSON.stringify(mirrored));
+	await recordOutcome(env, accountId, "mirrored", {
+		lastMirroredAt: mirrored.mirroredAt,
+		lastKey: key,
+	});
+
+	logger.log(`🪞 Mirrored ${file.name} to ${key}`);
+}
+
+/**
+ * Copy a changed file into `MIRROR_BUCKET` once per watched folder it sits
+ * in, using `ancestry` for the subfolder path inside recursive folders.
+ * Failures are recorded in the mirror status and never interrupt change
+ * processing.
+ */
+export async function mirrorChange(
+	env: AppBindings,
+	accountId: string,
+	accessToken: string,
+	change: DriveChange,
+	folders: WatchedFolder[],
+	ancestry?: FolderAncestry,
+) {
+	const bucket = env.MIRROR_BUCKET;
+	const file = change.file;
+
+	if (!bucket || !file || change.removed || file.trashed) return;
+
+	// Folders, forms and shortcuts have no content to copy
+	const mimeType = file.mimeType ?? "";
+	if (
+		mimeType.startsWith("application/vnd.google-apps.") &&
+		!isGoogleNative(mimeType)
+	) {
+		return;
+	}
+
+	for (const folder of folders) {
+		if (!isInsideFolder(folder, file.parents, ancestry)) continue;
+
+		const path = ancestry?.get(folder.id)?.path ?? [];
+
+		try {
+			await mirrorFile(env, bucket, accountId, accessToken, folder, file, path);
+		} catch (error: unknown) {
+			const message = error instanceof Error ? error.message : String(error);
+			logger.error(`🚨 Mirroring ${file.name} failed:`, message);
+
+			await recordOutcome(env, accountId, "failed", {
+				lastError: { fileId: file.id, message, at: Date.now() },
+			});
+		}
+	}
+}
@@ -0,0 +1,630 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { html } from "hono/html";
+import { accountKey, registerAccount, unlinkChannel } from "./accounts";
+import {
+	getSecret,
+	openSecret,
+	putSecret,
+	sealSecret,
+	signValue,
+	toBase64Url,
+	verifySignedValue,
+} from "./crypto";
+import {
+	type DriveResult,
+	getStartPageToken,
+	revokeToken,
+	watchChanges,
+} from "./drive";
+import { listFileWatches } from "./fileWatches";
+import {
+	type AuthorizationParams,
+	generateAuthUrl,
+	getAccessTokens,
+	getDriveWatch,
+	saveDriveWatch,
+	setDriveId,
+	stopDriveWatch,
+	stopFileWatch,
+} from "./helper";
+import { clearPageToken, syncPageToken } from "./processor";
+import { clearReauthRequired, getReauthState } from "./reauth";
+import {
+	getGrantedScopes,
+	profileForScopes,
+	requestAccountId,
+	setGrantedScopes,
+} from "./scopes";
+import type {
+	AppBindings,
+	OAuthToken,
+	PendingAuthorization,
+	ReauthState,
+} from "./types";
+import { logger } from "./utils";
+
+/* -------------------------------------------------------------------------- */
+/*                           Pending Authorizations                           */
+/* -------------------------------------------------------------------------- */
+
+const PENDING_PREFIX = "oauth_pending";
+const STATE_PURPOSE = "oauth-state";
+
+/** How long a consent URL stays usable */
+export const PENDING_TTL_S = 10 * 60;
+
+const encoder = new TextEncoder();
+
+async function pkceChallenge(verifier: string) {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		encoder.encode(verifier),
+	);
+	return toBase64Url(new Uint8Array(digest));
+}
+
+async function authorizationParams(
+	env: AppBindings,
+	id: string,
+	expiresAt: number,
+	codeVerifier: string,
+): Promise<AuthorizationParams> {
+	return {
+		state: await signValue(env, STATE_PURPOSE, `${id}.${expiresAt}`),
+		codeChallenge: await pkceChallenge(codeVerifier),
+	};
+}
+
+async function storePendingAuthorization(
+	env: AppBindings,
+	pending: Omit<PendingAuthorization, "codeVerifier" | "createdAt">,
+) {
+	const id = crypto.randomUUID();
+	const expiresAt = Date.now() + PENDING_TTL_S * 1000;
+	const codeVerifier = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+	await env.drive_kv.put(
+		`${PENDING_PREFIX}:${id}`,
+		JSON.stringify({
+			...pending,
+			codeVerifier: await sealSecret(env, codeVerifier),
+			createdAt: Date.now(),
+		} satisfies PendingAuthorization),
+		{ expirationTtl: PENDING_TTL_S },
+	);
+
+	return { id, expiresAt, codeVerifier };
+}
+
+/**
+ * Remember an authorization until Google redirects back. The `state` is
+ * signed and carries its expiry, so forged or stale ones are turned away
+ * before KV is read; the PKCE verifier never leaves the worker.
+ */
+export async function createPendingAuthorization(
+	env: AppBindings,
+	pending: Omit<PendingAuthorization, "codeVerifier" | "createdAt">,
+): Promise<AuthorizationParams> {
+	const { id, expiresAt, codeVerifier } = await storePendingAuthorization(
+		env,
+		pending,
+	);
+	return authorizationParams(env, id, expiresAt, codeVerifier);
+}
+
+export type PendingLookup =
+	| { ok: true; pending: PendingAuthorization }
+	| { ok: false; reason: "invalid_state" | "expired_state" | "unknown_state" };
+
+/**
+ * Check the `state` and remove its authorization; each one works once. The
+ * returned `codeVerifier` is in plaintext.
+ */
+export async function takePendingAuthorization(
+	env: AppBindings,
+	state: string,
+): Promise<PendingLookup> {
+	const value = await verifySignedValue(env, STATE_PURPOSE, state);
+	if (!value) {
+		logger.warn("⚠️ OAuth callback with a forged or malformed state");
+		return { ok: false, reason: "invalid_state" };
+	}
+
+	const [id, expiresAt] = value.split(".");
+	const key = `${PENDING_PREFIX}:${id}`;
+
+	if (!(Number(expiresAt) > Date.now())) {
+		await env.drive_kv.delete(key);
+		return { ok: false, reason: "expired_state" };
+	}
+
+	const raw = await env.drive_kv.get(key);
+	if (!raw) return { ok: false, reason: "unknown_state" };
+
+	await env.drive_kv.delete(key);
+	const pending = JSON.parse(raw) as PendingAuthorization;
+
+	return {
+		ok: true,
+		pending: {
+			...pending,
+			codeVerifier: await openSecret(env, pending.codeVerifier),
+		},
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Token Exchange                                */
+/* -------------------------------------------------------------------------- */
+
+export async function storeTokens(
+	env: AppBindings,
+	accountId: string,
+	token: OAuthToken,
+) {
+	await Promise.all([
+		putSecret(
+			env,
+			accountKey(accountId, "accessToken"),
+			token.access_token ?? "",
+		),
+		env.drive_kv.put(
+			accountKey(accountId, "accessTokenExpiry"),
+			token.expiry_date?.toString() ?? "",
+		),
+		// Google leaves out refresh_token when it already issued one; keep that
+		token.refresh_token &&
+			putSecret(
+				env,
+				accountKey(accountId, "refreshToken"),
+				token.refresh_token,
+			),
+		setGrantedScopes(env, accountId, token.scope),
+		clearReauthRequired(env, accountId),
+		registerAccount(env, accountId),
+	]);
+}
+
+interface TrackingSetup {
+	startPageToken?: string;
+	channelId?: string;
+	/** Tokens were stored, but tracking could not be set up */
+	warning?: string;
+}
+
+export type AuthorizationResult =
+	| ({ ok: true; accountId: string } & TrackingSetup)
+	| { ok: false; status: 500 | 502; message: string };
+
+// Start page token, then the watch channel when a webhook URL was given
+async function setUpTracking(
+	env: AppBindings,
+	pending: PendingAuthorization,
+	accessToken: string,
+): Promise<TrackingSetup> {
+	const { accountId, webhookUrl } = pending;
+	const driveId = pending.driveId ?? null;
+
+	const res = await getStartPageToken(accessToken, driveId);
+	if (!res.ok) {
+		logger.error(`❌ Drive API error: ${res.error}`);
+		return { warning: "Change tracking could not be initialized" };
+	}
+
+	const { startPageToken } = res.data;
+	if (!startPageToken) {
+		return { warning: "Change tracking could not be initialized" };
+	}
+
+	await Promise.all([
+		syncPageToken(env, accountId, startPageToken),
+		setDriveId(env, accountId, driveId),
+	]);
+
+	if (!webhookUrl) return { startPageToken };
+
+	const channelId = crypto.randomUUID();
+	const webhookToken = crypto.randomUUID();
+	const expiration = Date.now() + 24 * 60 * 60 * 1000;
+
+	const watch = await watchChanges({
+		accessToken,
+		channelId,
+		expiration,
+		startPageToken,
+		webhookToken,
+		webhookUrl,
+		driveId,
+	});
+	if (!watch.ok) {
+		logger.error(`❌ Drive watch error: ${watch.error}`);
+		return {
+			startPageToken,
+			warning: "The watch channel could not be created",
+		};
+	}
+
+	const { resourceId } = watch.data;
+	await Promise.all([
+		env.drive_kv.put(
+			accountKey(accountId, "worker_drive_webhook_url"),
+			webhookUrl,
+		),
+		saveDriveWatch(env, accountId, {
+			channelId,
+			resourceId,
+			expiration,
+			webhookToken,
+			driveId,
+		}),
+	]);
+
+	return { startPageToken, channelId };
+}
+
+/**
+ * Finish an authorization from the OAuth callback: exchange the code with the
+ * account's stored client credentials, store the tokens and, when asked for,
+ * start tracking changes.
+ */
+export async function completeAuthorization(
+	env: AppBindings,
+	pending: PendingAuthorization,
+	code: string,
+): Promise<AuthorizationResult> {
+	const { accountId } = pending;
+	const [clientId, clientSecret] = await Promise.all([
+		env.drive_kv.get(accountKey(accountId, "client_id")),
+		getSecret(env, accountKey(accountId, "client_secret")),
+	]);
+
+	if (!clientId || !clientSecret) {
+		return {
+			ok: false,
+			status: 500,
+			message: "Client credentials for this account are missing",
+		};
+	}
+
+	let token: OAuthToken;
+	try {
+		token = await getAccessTokens(
+			{
+				client_id: clientId,
+				client_secret: clientSecret,
+				redirect_uris: [pending.redirectUri],
+			},
+			code,
+			pending.codeVerifier,
+		);
+	} catch (error: unknown) {
+		logger.error(
+			"🚨 Authorization code exchange failed",
+			error instanceof Error ? error.message : error,
+		);
+		return {
+			ok: false,
+			status: 502,
+			message: "Google did not accept the authorization code",
+		};
+	}
+
+	await storeTokens(env, accountId, token);
+	logger.log(`✅ OAuth tokens stored in KV (${accountId})`);
+
+	if (!token.access_token || !(pending.initTracking || pending.webhookUrl)) {
+		return { ok: true, accountId };
+	}
+
+	return {
+		ok: true,
+		accountId,
+		...(await setUpTracking(env, pending, token.access_token)),
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Disconnect                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Account-scoped keys that hold credentials or tracking state. Configuration
+ * (client credentials, folders, rules, subscriptions) stays, so the account
+ * can be authorized again without being set up from scratch.
+ */
+const CONNECTION_KEYS = [
+	"accessToken",
+	"accessTokenExpiry",
+	"refreshToken",
+	"accessTokenRefreshLock",
+	"reauth_required",
+	"auth_code",
+	"scope",
+	"driveChannelId",
+	"driveResourceId",
+	"driveChannelExpiration",
+	"driveWebhookToken",
+	"drive_start_page_token",
+	"file_watches",
+] as const;
+
+export interface DisconnectReport {
+	accountId: string;
+	/** Drive watch channel; `stopped: false` when Google could not be reached */
+	channel: { channelId: string; stopped: boolean } | null;
+	/** Single-file watch channels, stopped the same way */
+	fileWatches: { fileId: string; channelId: string; stopped: boolean }[];
+	/** `already_invalid` when Google no longer knew the token */
+	revocation: "revoked" | "already_invalid" | "no_token";
+	/** KV keys that existed and were deleted */
+	removedKeys: string[];
+}
+
+export type DisconnectResult =
+	| { ok: true; report: DisconnectReport }
+	| { ok: false; status: 502; message: string; error?: string };
+
+// Channels are stopped while a token still works; unreachable ones lapse at expiry
+async function stopAccountChannels(env: AppBindings, accountId: string) {
+	const current = await getDriveWatch(env, accountId);
+	const stopped = current
+		? await stopDriveWatch(env, accountId).catch(() => null)
+		: null;
+
+	const channel = current
+		? { channelId: current.channelId, stopped: !!stopped?.ok }
+		: null;
+	if (current && !stopped?.ok) await unlinkChannel(env, current.channelId);
+
+	const fileWatches: DisconnectReport["fileWatches"] = [];
+	for (const watch of await listFileWatches(env, accountId)) {
+		const result = await stopFileWatch(env, accountId, watch.fileId).catch(
+			() => null,
+		);
+		if (!result?.ok) await unlinkChannel(env, watch.channelId);
+
+		fileWatches.push({
+			fileId: watch.fileId,
+			channelId: watch.channelId,
+			stopped: !!result?.ok,
+		});
+	}
+
+	return { channel, fileWatches };
+}
+
+/**
+ * Unplug an account: stop its watch channels, revoke its grant at Google and
+ * delete its credentials and tracking state. When Google cannot revoke the
+ * token the credentials are kept, so the call can be retried.
+ */
+export async function disconnectAccount(
+	env: AppBindings,
+	accountId: string,
+): Promise<DisconnectResult> {
+	const channels = await stopAccountChannels(env, accountId);
+
+	const token =
+		(await getSecret(env, accountKey(accountId, "refreshToken"))) ||
+		(await getSecret(env, accountKey(accountId, "accessToken")));
+
+	let revocation: DisconnectReport["revocation"] = "no_token";
+	if (token) {
+		let res: DriveResult<undefined>;
+		try {
+			res = await revokeToken(token);
+		} catch (error: unknown) {
+			logger.error(
+				"🚨 Token revocation failed",
+				error instanceof Error ? error.message : error,
+			);
+			return {
+				ok: false,
+				status: 502,
+				message: "Google could not be reached to revoke the token",
+			};
+		}
+
+		if (!res.ok && res.status !== 400) {
+			logger.error(`🚨 Token revocation failed: ${res.error}`);
+			return {
+				ok: false,
+				status: 502,
+				message: "Google did not revoke the token",
+				error: res.error,
+			};
+		}
+		revocation = res.ok ? "revoked" : "already_invalid";
+	}
+
+	const keys = CONNECTION_KEYS.map((key) => accountKey(accountId, key));
+	const existing = await Promise.all(keys.map((key) => env.drive_kv.get(key)));
+	const removedKeys = keys.filter((_, index) => existing[index] !== null);
+
+	await Promise.all([
+		...removedKeys.map((key) => env.drive_kv.delete(key)),
+		clearPageToken(env, accountId),
+		clearReauthRequired(env, accountId),
+	]);
+
+	logger.info(`🔌 Account disconnected (${accountId}): ${revocation}`);
+	return {
+		ok: true,
+		report: { accountId, ...channels, revocation, removedKeys },
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Re-Authorization                              */
+/* -------------------------------------------------------------------------- */
+
+// Pending re-authorization of an account, handed out by every 409
+const REAUTH_PENDING_KEY = "oauth_reauth_pending";
+
+// A consent URL about to expire is not worth handing out again
+const REAUTH_REUSE_MIN_S = 60;
+
+interface ReauthPending {
+	id: string;
+	expiresAt: number;
+}
+
+/**
+ * The account's unexpired re-authorization, or a new one, so repeated 409s
+ * do not pile up pending authorizations.
+ */
+async function reauthorization(
+	env: AppBindings,
+	accountId: string,
+	redirectUri: string,
+): Promise<{ authorization: AuthorizationParams; expiresAt: number }> {
+	const key = accountKey(accountId, REAUTH_PENDING_KEY);
+	const raw = await env.drive_kv.get(key);
+
+	if (raw) {
+		const { id, expiresAt } = JSON.parse(raw) as ReauthPending;
+		const stored = await env.drive_kv.get(`${PENDING_PREFIX}:${id}`);
+		const pending = stored
+			? (JSON.parse(stored) as PendingAuthorization)
+			: null;
+
+		if (
+			pending?.redirectUri === redirectUri &&
+			expiresAt - Date.now() > REAUTH_REUSE_MIN_S * 1000
+		) {
+			const codeVerifier = await openSecret(env, pending.codeVerifier);
+			return {
+				authorization: await authorizationParams(
+					env,
+					id,
+					expiresAt,
+					codeVerifier,
+				),
+				expiresAt,
+			};
+		}
+	}
+
+	const { id, expiresAt, codeVerifier } = await storePendingAuthorization(env, {
+		accountId,
+		redirectUri,
+		initTracking: false,
+	});
+	await env.drive_kv.put(
+		key,
+		JSON.stringify({ id, expiresAt } satisfies ReauthPending),
+		{ expirationTtl: PENDING_TTL_S },
+	);
+
+	return {
+		authorization: await authorizationParams(env, id, expiresAt, codeVerifier),
+		expiresAt,
+	};
+}
+
+/**
+ * Consent URL that restores a refused grant with the scopes it had. Tracking
+ * state is kept, so the callback only has to store the new tokens.
+ */
+export async function createReauthorizationUrl(
+	env: AppBindings,
+	accountId: string,
+): Promise<{ url: string; expiresAt: number } | null> {
+	const [clientId, clientSecret, redirectUris, granted] = await Promise.all([
+		env.drive_kv.get(accountKey(accountId, "client_id")),
+		getSecret(env, accountKey(accountId, "client_secret")),
+		env.drive_kv.get(accountKey(accountId, "redirect_uris")),
+		getGrantedScopes(env, accountId),
+	]);
+	if (!clientId || !clientSecret || !redirectUris) return null;
+
+	const redirect_uris = JSON.parse(redirectUris) as string[];
+	const { authorization, expiresAt } = await reauthorization(
+		env,
+		accountId,
+		redirect_uris[0],
+	);
+
+	return {
+		url: generateAuthUrl(
+			{ client_id: clientId, client_secret: clientSecret, redirect_uris },
+			{ profile: profileForScopes(granted), authorization },
+		),
+		expiresAt,
+	};
+}
+
+async function reauthRequired(
+	c: Context<{ Bindings: AppBindings }>,
+	accountId: string,
+	state: ReauthState,
+) {
+	const reauth = await createReauthorizationUrl(c.env, accountId);
+
+	return c.json(
+		{
+			message: reauth
+				? "Google refused this account's refresh token; authorize it again"
+				: "Google refused this account's refresh token; authorize it again with POST /oauth/url",
+			reason: "reauth_required",
+			accountId,
+			error: state.error,
+			since: state.since,
+			auth_url: reauth?.url ?? null,
+			...(reauth && {
+				expires_in: Math.floor((reauth.expiresAt - Date.now()) / 1000),
+			}),
+		},
+		409,
+	);
+}
+
+/**
+ * Answer 409 with a fresh consent URL for an account whose grant Google
+ * refused, including on the request that finds out.
+ */
+export function requireAuthorization(): MiddlewareHandler<{
+	Bindings: AppBindings;
+}> {
+	return async (c, next) => {
+		const accountId = await requestAccountId(c);
+		const state = await getReauthState(c.env, accountId);
+		if (state) return reauthRequired(c, accountId, state);
+
+		await next();
+
+		// The route's own token refresh may have just been refused
+		if (c.res.status >= 500) {
+			const refused = await getReauthState(c.env, accountId);
+			if (refused) c.res = await reauthRequired(c, accountId, refused);
+		}
+	};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Result Page                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Minimal page shown in the browser tab Google redirects to */
+export function authorizationPage(page: {
+	ok: boolean;
+	title: string;
+	details: string[];
+}) {
+	return html`<!doctype html>
+<html lang="en">
+	<head>
+		<meta charset="utf-8" />
+		<meta name="viewport" content="width=device-width, initial-scale=1" />
+		<title>${page.title}</title>
+		<style>
+			body { font-family: system-ui, sans-serif; max-width: 34rem; margin: 4rem auto; padding: 0 1rem; color: #1f2937; }
+			h1 { font-size: 1.4rem; color: ${page.ok ? "#047857" : "#b91c1c"}; }
+		</style>
+	</head>
+	<body>
+		<h1>${page.ok ? "✅" : "❌"} ${page.title}</h1>
+		${page.details.map((detail) => html`<p>${detail}</p>`)}
+	</body>
+</html>`;
+}
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { DurableObjectState } from "@cloudflare/workers-types";
+import { ChangeProcessor, type ProcessOutcome } from "./processor";
+import type { AppBindings } from "./types";
+import { createMockEnv, jsonResponse, mockFetch, MockStorage } from "./testing";
+
+describe("ChangeProcessor", () => {
+	let mockEnv: AppBindings;
+	let storage: MockStorage;
+	let processor: ChangeProcessor;
+
+	const notify = async (body: Record<string, unknown> = {}) => {
+		const res = await processor.fetch(
+			new Request("https://change-processor/process", {
+				method: "POST",
+				body: JSON.stringify({ accountId: "default", ...body }),
+			}),
+		);
+		return (await res.json()) as ProcessOutcome;
+	};
+
+	const storedToken = () => storage.get<string>("drive_start_page_token");
+
+	// Drive answers every changes.list with a token derived from the request
+	const drivePages = () =>
+		mockFetch((url: string) => {
+			const pageToken = new URL(url).searchParams.get("pageToken");
+			return Promise.resolve(
+				jsonResponse({ changes: [], newStartPageToken: `next_${pageToken}` }),
+			);
+		});
+
+	beforeEach(async () => {
+		mockEnv = createMockEnv();
+		storage = new MockStorage();
+		processor = new ChangeProcessor(
+			{ storage } as unknown as DurableObjectState,
+			mockEnv,
+		);
+
+		await mockEnv.drive_kv.put("accessToken", "stored_access_token");
+		await mockEnv.drive_kv.put(
+			"accessTokenExpiry",
+			(Date.now() + 3600000).toString(),
+		);
+		await mockEnv.drive_kv.put(
+			"watched_folders",
+			JSON.stringify([{ id: "folder", createdAt: 0 }]),
+		);
+		await mockEnv.drive_kv.put("drive_start_page_token", "kv_token");
+	});
+
+	test("adopts the KV page token and mirrors checkpoints back", async () => {
+		drivePages();
+
+		const outcome = await notify();
+
+		expect(outcome.status).toBe("processed");
+		expect(await storedToken()).toBe("next_kv_token");
+		expect(await mockEnv.drive_kv.get("drive_start_page_token")).toBe(
+			"next_kv_token",
+		);
+	});
+
+	test("owns the page token once it has one", async () => {
+		drivePages();
+		await storage.put("drive_start_page_token", "owned_token");
+
+		await notify();
+
+		expect(await storedToken()).toBe("next_owned_token");
+	});
+
+	test("coalesces notifications that arrive during a run", async () => {
+		let release = () => {};
+		const gate = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		const pages = drivePages();
+		const fetchMock = mockFetch(async (url: string) => {
+			if (fetchMock.mock.calls.length === 1) await gate;
+			return pages(url);
+		});
+
+		const first = notify();
+		while (!fetchMock.mock.calls.length) await Bun.sleep(1);
+
+		expect((await notify()).status).toBe("coalesced");
+		expect((await notify()).status).toBe("coalesced");
+
+		release();
+		expect((await first).status).toBe("processed");
+
+		// Two late notifications cost exactly one follow-up run
+		const tokens = fetchMock.mock.calls.map(([url]) =>
+			new URL(url).searchParams.get("pageToken"),
+		);
+		expect(tokens).toEqual(["kv_token", "next_kv_token"]);
+		expect(await storedToken()).toBe("next_next_kv_token");
+	});
+
+	test("reports missing configuration", async () => {
+		await mockEnv.drive_kv.delete("watched_folders");
+
+		expect((await notify()).status).toBe("misconfigured");
+	});
+
+	test("skips accounts that need re-authorization", async () => {
+		const fetchMock = drivePages();
+		await mockEnv.drive_kv.put(
+			"reauth_required",
+			JSON.stringify({ error: "invalid_grant", since: 0 }),
+		);
+
+		expect((await notify()).status).toBe("reauth_required");
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	test("replaces the page token on request", async () => {
+		const res = await processor.fetch(
+			new Request("https://change-processor/page-token", {
+				method: "POST",
+				body: JSON.stringify({ accountId: "default", token: "fresh_token" }),
+			}),
+		);
+
+		expect(await res.json()).toEqual({ token: "fresh_token" });
+		expect(await storedToken()).toBe("fresh_token");
+		expect(await mockEnv.drive_kv.get("drive_start_page_token")).toBe(
+			"fresh_token",
+		);
+	});
+});
@@ -0,0 +1,190 @@
+import type { DurableObjectState } from "@cloudflare/workers-types";
+import { accountKey } from "./accounts";
+import { listWatchedFolders } from "./folders";
+import {
+	type DriveChangeResult,
+	fetchAndLogChanges,
+	getValidAccessToken,
+} from "./helper";
+import { getReauthState } from "./reauth";
+import type { AppBindings } from "./types";
+import { logger } from "./utils";
+
+/* -------------------------------------------------------------------------- */
+/*                              Change Processor                              */
+/* -------------------------------------------------------------------------- */
+
+/** Overrides forwarded from an authenticated debug webhook call */
+export interface ProcessRequest {
+	accountId: string;
+	accessToken?: string;
+	startPageToken?: string;
+}
+
+export type ProcessOutcome =
+	| { status: "processed"; result: DriveChangeResult | string }
+	| { status: "coalesced" }
+	| { status: "misconfigured" }
+	| { status: "reauth_required" };
+
+const PAGE_TOKEN_KEY = "drive_start_page_token";
+
+/**
+ * One instance per account (`idFromName(accountId)`). It owns the account's
+ * page token and runs `changes.list` for one notification at a time; the
+ * KV copy of the token is a mirror for the cron job and older readers.
+ */
+export class ChangeProcessor {
+	private running?: Promise<ProcessOutcome>;
+	private pending?: ProcessRequest;
+
+	constructor(
+		private readonly state: DurableObjectState,
+		private readonly env: AppBindings,
+	) {}
+
+	async fetch(request: Request): Promise<Response> {
+		const { pathname } = new URL(request.url);
+
+		if (pathname === "/page-token") {
+			const { accountId, token } = (await request.json()) as {
+				accountId: string;
+				token?: string;
+			};
+
+			if (request.method === "DELETE") {
+				await this.state.storage.delete(PAGE_TOKEN_KEY);
+				await this.env.drive_kv.delete(accountKey(accountId, PAGE_TOKEN_KEY));
+				return Response.json({ token: null });
+			}
+
+			if (token) await this.savePageToken(accountId, token);
+
+			return Response.json({ token: await this.loadPageToken(accountId) });
+		}
+
+		const job = (await request.json()) as ProcessRequest;
+
+		// A run is in progress: fold this notification into one follow-up run
+		if (this.running) {
+			this.pending = { ...this.pending, ...job };
+			return Response.json({ status: "coalesced" } satisfies ProcessOutcome);
+		}
+
+		this.running = this.drain(job);
+		try {
+			return Response.json(await this.running);
+		} finally {
+			this.running = undefined;
+		}
+	}
+
+	private async drain(job: ProcessRequest): Promise<ProcessOutcome> {
+		let outcome = await this.process(job);
+
+		while (this.pending) {
+			const next = this.pending;
+			this.pending = undefined;
+
+			logger.log(`🔁 Re-running coalesced notifications (${next.accountId})`);
+			outcome = await this.process(next);
+		}
+
+		return outcome;
+	}
+
+	private async process(job: ProcessRequest): Promise<ProcessOutcome> {
+		const { accountId } = job;
+
+		if (job.startPageToken) {
+			await this.savePageToken(accountId, job.startPageToken);
+		}
+
+		const [pageToken, watchedFolders] = await Promise.all([
+			this.loadPageToken(accountId),
+			listWatchedFolders(this.env, accountId),
+		]);
+
+		// Refreshing a refused grant cannot succeed until the account is re-authorized
+		if (!job.accessToken && (await getReauthState(this.env, accountId))) {
+			return { status: "reauth_required" };
+		}
+
+		const accessToken =
+			job.accessToken || (await getValidAccessToken(this.env, accountId));
+
+		if (!accessToken || !watchedFolders.length || !pageToken) {
+			return { status: "misconfigured" };
+		}
+
+		const result = await fetchAndLogChanges(
+			this.env,
+			accessToken,
+			watchedFolders,
+			pageToken,
+			accountId,
+			(token) => this.savePageToken(accountId, token),
+		);
+
+		return { status: "processed", result };
+	}
+
+	// Adopt the KV token written before this object existed
+	private async loadPageToken(accountId: string): Promise<string | null> {
+		const stored = await this.state.storage.get<string>(PAGE_TOKEN_KEY);
+		if (stored) return stored;
+
+		return this.env.drive_kv.get(accountKey(accountId, PAGE_TOKEN_KEY));
+	}
+
+	private async savePageToken(accountId: string, token: string) {
+		await this.state.storage.put(PAGE_TOKEN_KEY, token);
+		await this.env.drive_kv.put(accountKey(accountId, PAGE_TOKEN_KEY), token);
+	}
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Worker Client                               */
+/* -------------------------------------------------------------------------- */
+
+function processorFor(env: AppBindings, accountId: string) {
+	return env.CHANGE_PROCESSOR.get(env.CHANGE_PROCESSOR.idFromName(accountId));
+}
+
+export async function processChanges(
+	env: AppBindings,
+	job: ProcessRequest,
+): Promise<ProcessOutcome> {
+	const res = await processorFor(env, job.accountId).fetch(
+		"https://change-processor/process",
+		{ method: "POST", body: JSON.stringify(job) },
+	);
+
+	return res.json<ProcessOutcome>();
+}
+
+/**
+ * Read the account's page token, replacing it first when `token` is given.
+ * Routes that hand out a fresh token must go through here so the processor
+ * does not keep walking from a stale one.
+ */
+export async function syncPageToken(
+	env: AppBindings,
+	accountId: string,
+	token?: string | null,
+): Promise<string | null> {
+	const res = await processorFor(env, accountId).fetch(
+		"https://change-processor/page-token",
+		{ method: "POST", body: JSON.stringify({ accountId, token }) },
+	);
+
+	return (await res.json<{ token: string | null }>()).token;
+}
+
+/** Forget the account's page token, so the next authorization starts afresh */
+export async function clearPageToken(env: AppBindings, accountId: string) {
+	await processorFor(env, accountId).fetch(
+		"https://change-processor/page-token",
+		{ method: "DELETE", body: JSON.stringify({ accountId }) },
+	);
+}
@@ -0,0 +1,250 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type {
+	DurableObjectNamespace,
+	DurableObjectState,
+} from "@cloudflare/workers-types";
+import { Hono } from "hono";
+import { RATE_LIMIT_POLICIES, rateLimit } from "./middleware";
+import { type RateLimitDecision, RateLimiter } from "./ratelimit";
+import { createMockEnv, MockStorage } from "./testing";
+import type { AppBindings } from "./types";
+
+// One real RateLimiter per bucket name
+class MockRateLimiterNamespace {
+	limiters = new Map<string, RateLimiter>();
+
+	constructor(private readonly env: AppBindings) {}
+
+	idFromName(name: string) {
+		return name;
+	}
+
+	get(name: string) {
+		let limiter = this.limiters.get(name);
+		if (!limiter) {
+			limiter = new RateLimiter(
+				{ storage: new MockStorage() } as unknown as DurableObjectState,
+				this.env,
+			);
+			this.limiters.set(name, limiter);
+		}
+
+		return {
+			fetch: (url: string, init: RequestInit) =>
+				(limiter as RateLimiter).fetch(new Request(url, init)),
+		};
+	}
+}
+
+const createLimitedEnv = (): AppBindings => {
+	const env = createMockEnv();
+	env.RATE_LIMITER = new MockRateLimiterNamespace(
+		env,
+	) as unknown as DurableObjectNamespace;
+	return env;
+};
+
+describe("RateLimiter", () => {
+	let storage: MockStorage;
+	let limiter: RateLimiter;
+
+	const take = async (limit = 3, window = 60) => {
+		const res = await limiter.fetch(
+			new Request("https://rate-limiter/take", {
+				method: "POST",
+				body: JSON.stringify({ limit, window }),
+			}),
+		);
+		return (await res.json()) as RateLimitDecision;
+	};
+
+	beforeEach(() => {
+		storage = new MockStorage();
+		limiter = new RateLimiter(
+			{ storage } as unknown as DurableObjectState,
+			createLimitedEnv(),
+		);
+	});
+
+	test("allows a burst up to the limit, then refuses", async () => {
+		const decisions = [await take(), await take(), await take()];
+		expect(decisions.map((d) => d.remaining)).toEqual([2, 1, 0]);
+		expect(decisions.every((d) => d.allowed)).toBe(true);
+
+		const refused = await take();
+		expect(refused.allowed).toBe(false);
+		expect(refused.retryAfter).toBe(20);
+		expect(refused.reset).toBe(60);
+	});
+
+	test("refills at limit per window", async () => {
+		for (let i = 0; i < 3; i++) await take();
+
+		const bucket = await storage.get<{ tokens: number; updatedAt: number }>(
+			"bucket",
+		);
+		await storage.put("bucket", {
+			...bucket,
+			updatedAt: (bucket?.updatedAt ?? 0) - 20_000,
+		});
+
+		const decision = await take();
+		expect(decision.allowed).toBe(true);
+		expect(decision.remaining).toBe(0);
+	});
+
+	test("forgets the bucket once it would be full", async () => {
+		const before = Date.now();
+		await take();
+
+		expect(storage.alarm).toBeGreaterThanOrEqual(before + 20_000);
+
+		await limiter.alarm();
+		expect(await storage.get("bucket")).toBeUndefined();
+	});
+});
+
+describe("rateLimit middleware", () => {
+	let mockEnv: AppBindings;
+
+	const app = new Hono<{ Bindings: AppBindings }>();
+	app.use(
+		"*",
+		rateLimit([
+			{ name: "open", paths: ["/open"], limit: 2, window: 60 },
+			{ name: "drive", paths: ["/drive/*"], limit: 1, window: 60 },
+		]),
+	);
+	app.all("*", (c) => c.text("ok"));
+
+	const request = (path: string, headers: Record<string, string> = {}) =>
+		app.fetch(
+			new Request(`http://localhost${path}`, {
+				headers: { "cf-connecting-ip": "203.0.113.1", ...headers },
+			}),
+			mockEnv,
+		);
+
+	beforeEach(() => {
+		mockEnv = createLimitedEnv();
+	});
+
+	test("sets RateLimit headers and Retry-After once exhausted", async () => {
+		const first = await request("/open");
+		expect(first.headers.get("RateLimit-Limit")).toBe("2");
+		expect(first.headers.get("RateLimit-Remaining")).toBe("1");
+		expect(first.headers.get("RateLimit-Policy")).toBe("2;w=60");
+
+		await request("/open");
+		const refused = await request("/open");
+
+		expect(refused.status).toBe(429);
+		expect(refused.headers.get("Retry-After")).toBe("30");
+		expect(await refused.json()).toEqual({
+			message: "Too many requests",
+			retryAfter: 30,
+		});
+	});
+
+	test("keys buckets by policy and client", async () => {
+		expect((await request("/drive/a")).status).toBe(200);
+		// Another path under the same policy shares the bucket
+		expect((await request("/drive/b")).status).toBe(429);
+
+		// A different IP has its own bucket
+		expect(
+			(await request("/drive/a", { "cf-connecting-ip": "203.0.113.2" }))
+				.status,
+		).toBe(200);
+
+		// So does the API key, wherever it is sent from
+		const keyed = { Authorization: "Bearer test_auth_key" };
+		expect((await request("/drive/a", keyed)).status).toBe(200);
+		expect(
+			(
+				await request("/drive/a", {
+					...keyed,
+					"cf-connecting-ip": "198.51.100.7",
+				})
+			).status,
+		).toBe(429);
+
+		// A wrong key does not escape the IP bucket
+		expect(
+			(await request("/drive/a", { Authorization: "Bearer guess" })).status,
+		).toBe(429);
+	});
+
+	test("leaves unmatched routes alone", async () => {
+		const res = await request("/elsewhere");
+
+		expect(res.status).toBe(200);
+		expect(res.headers.get("RateLimit-Limit")).toBeNull();
+	});
+
+	test("applies RATE_LIMITS overrides", async () => {
+		mockEnv.RATE_LIMITS = JSON.stringify({ drive: { limit: 2 } });
+
+		await request("/drive/a");
+		const second = await request("/drive/a");
+
+		expect(second.status).toBe(200);
+		expect(second.headers.get("RateLimit-Policy")).toBe("2;w=60");
+	});
+
+	test("fails open when the limiter is unavailable", async () => {
+		mockEnv.RATE_LIMITER = {
+			idFromName: () => "broken",
+			get: () => ({
+				fetch: () => Promise.reject(new Error("limiter down")),
+			}),
+		} as unknown as DurableObjectNamespace;
+
+		expect((await request("/drive/a")).status).toBe(200);
+	});
+});
+
+describe("Default policies", () => {
+	let mockEnv: AppBindings;
+
+	const app = new Hono<{ Bindings: AppBindings }>();
+	app.use("*", rateLimit(RATE_LIMIT_POLICIES));
+	app.post("*", (c) => c.text("ok"));
+
+	const push = (token: string) =>
+		app.fetch(
+			new Request("http://localhost/drive/webhook", {
+				method: "POST",
+				headers: {
+					"X-Goog-Channel-ID": "channel_1",
+					"X-Goog-Channel-Token": token,
+					"X-Goog-Resource-ID": "resource_1",
+					"X-Goog-Message-Number": "7",
+				},
+			}),
+			mockEnv,
+		);
+
+	beforeEach(async () => {
+		mockEnv = createLimitedEnv();
+		await mockEnv.drive_kv.put("driveChannelId", "channel_1");
+		await mockEnv.drive_kv.put("driveWebhookToken", "webhook_token");
+		await mockEnv.drive_kv.put("driveResourceId", "resource_1");
+	});
+
+	test("exempts verified Google pushes from the webhook limit", async () => {
+		for (let i = 0; i < 70; i++) {
+			expect((await push("webhook_token")).status).toBe(200);
+		}
+
+		// Pushes are verified without consuming their message number
+		expect(await mockEnv.drive_kv.get("channel_message:channel_1")).toBeNull();
+	});
+
+	test("limits webhook calls that fail verification", async () => {
+		const res = await push("forged_token");
+
+		expect(res.status).toBe(200);
+		expect(res.headers.get("RateLimit-Limit")).toBe("60");
+	});
+});
@@ -0,0 +1,102 @@
+import type { DurableObjectState } from "@cloudflare/workers-types";
+import type { AppBindings } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                                Rate Limiter                                */
+/* -------------------------------------------------------------------------- */
+
+export interface RateLimitRequest {
+	/** Requests allowed per window; also the burst size */
+	limit: number;
+
+	/** Window length in seconds */
+	window: number;
+}
+
+export interface RateLimitDecision {
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+
+	/** Seconds until the bucket is full again */
+	reset: number;
+
+	/** Seconds until the next request is allowed; 0 when allowed */
+	retryAfter: number;
+}
+
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+}
+
+const BUCKET_KEY = "bucket";
+
+/**
+ * Token bucket for one client under one policy
+ * (`idFromName("<policy>:<client>")`). A Durable Object handles its requests
+ * one at a time, so the read-modify-write below cannot interleave and bursts
+ * are counted exactly.
+ */
+export class RateLimiter {
+	constructor(
+		private readonly state: DurableObjectState,
+		_env: AppBindings,
+	) {}
+
+	async fetch(request: Request): Promise<Response> {
+		const { limit, window } = (await request.json()) as RateLimitRequest;
+		return Response.json(await this.take(limit, window));
+	}
+
+	// A full bucket carries no information; drop it once refilled
+	async alarm() {
+		await this.state.storage.deleteAll();
+	}
+
+	private async take(limit: number, window: number) {
+		const now = Date.now();
+		const perMs = limit / (window * 1000);
+
+		const stored = await this.state.storage.get<Bucket>(BUCKET_KEY);
+		const tokens = stored
+			? Math.min(limit, stored.tokens + (now - stored.updatedAt) * perMs)
+			: limit;
+
+		const allowed = tokens >= 1;
+		const left = allowed ? tokens - 1 : tokens;
+		const fullIn = (limit - left) / perMs;
+
+		await this.state.storage.put<Bucket>(BUCKET_KEY, {
+			tokens: left,
+			updatedAt: now,
+		});
+		await this.state.storage.setAlarm(now + fullIn);
+
+		return {
+			allowed,
+			limit,
+			remaining: Math.floor(left),
+			reset: Math.ceil(fullIn / 1000),
+			retryAfter: allowed ? 0 : Math.ceil((1 - left) / perMs / 1000),
+		} satisfies RateLimitDecision;
+	}
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Worker Client                               */
+/* -------------------------------------------------------------------------- */
+
+export async function takeToken(
+	env: AppBindings,
+	bucket: string,
+	request: RateLimitRequest,
+): Promise<RateLimitDecision> {
+	const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(bucket));
+	const res = await limiter.fetch("https://rate-limiter/take", {
+		method: "POST",
+		body: JSON.stringify(request),
+	});
+
+	return res.json<RateLimitDecision>();
+}
@@ -0,0 +1,110 @@
+import { accountKey, DEFAULT_ACCOUNT_ID } from "./accounts";
+import type { AppBindings, ReauthState } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                                 OAuth Errors                               */
+/* -------------------------------------------------------------------------- */
+
+/** Error answer from Google's token endpoint (RFC 6749, section 5.2) */
+export class OAuthError extends Error {
+	override readonly name = "OAuthError";
+
+	constructor(
+		/** OAuth error code, e.g. `invalid_grant` */
+		readonly code: string,
+		/** HTTP status Google answered with */
+		readonly status: number,
+		readonly description?: string,
+	) {
+		super(
+			`🚨 Google OAuth error: ${description ? `${code} (${description})` : code}`,
+		);
+	}
+
+	/** The grant is gone; only a new consent brings the account back */
+	get reauthRequired(): boolean {
+		return this.code === "invalid_grant";
+	}
+}
+
+/** Read an error response of the token endpoint; bodies are not always JSON */
+export async function parseOAuthError(res: Response): Promise<OAuthError> {
+	const text = await res.text();
+
+	try {
+		const body = JSON.parse(text) as {
+			error?: string;
+			error_description?: string;
+		};
+		if (body.error) {
+			return new OAuthError(body.error, res.status, body.error_description);
+		}
+	} catch {
+		// Not JSON: keep the raw text as the description
+	}
+
+	return new OAuthError("server_error", res.status, text || undefined);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           Re-Authorization State                           */
+/* -------------------------------------------------------------------------- */
+
+const REAUTH_KEY = "reauth_required";
+// Accounts currently marked, so health checks need a single read
+const REAUTH_ACCOUNTS_KEY = "reauth_accounts";
+
+/** Set when Google refused the refresh token; cleared by new tokens */
+export async function getReauthState(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<ReauthState | null> {
+	const raw = await env.drive_kv.get(accountKey(accountId, REAUTH_KEY));
+	return raw ? (JSON.parse(raw) as ReauthState) : null;
+}
+
+/** IDs of the accounts waiting to be authorized again */
+export async function listReauthRequired(env: AppBindings): Promise<string[]> {
+	const raw = await env.drive_kv.get(REAUTH_ACCOUNTS_KEY);
+	return raw ? (JSON.parse(raw) as string[]) : [];
+}
+
+export async function markReauthRequired(
+	env: AppBindings,
+	accountId: string,
+	error: OAuthError,
+) {
+	await env.drive_kv.put(
+		accountKey(accountId, REAUTH_KEY),
+		JSON.stringify({
+			error: error.code,
+			description: error.description,
+			since: Date.now(),
+		} satisfies ReauthState),
+	);
+
+	const accounts = await listReauthRequired(env);
+	if (!accounts.includes(accountId)) {
+		await env.drive_kv.put(
+			REAUTH_ACCOUNTS_KEY,
+			JSON.stringify([...accounts, accountId]),
+		);
+	}
+}
+
+export async function clearReauthRequired(env: AppBindings, accountId: string) {
+	await env.drive_kv.delete(accountKey(accountId, REAUTH_KEY));
+
+	const accounts = await listReauthRequired(env);
+	if (accounts.includes(accountId)) {
+		await env.drive_kv.put(
+			REAUTH_ACCOUNTS_KEY,
+			JSON.stringify(accounts.filter((id) => id !== accountId)),
+		);
+	}
+}
+
+/** The stored state as the error a refresh would have thrown */
+export function reauthError(state: ReauthState): OAuthError {
+	return new OAuthError(state.error, 400, state.description);
+}
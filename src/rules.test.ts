@@ -0,0 +1,282 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { DriveChange } from "./drive";
+import {
+	createRule,
+	deleteRule,
+	evaluateRules,
+	listRules,
+	ruleMatches,
+	runRuleActions,
+} from "./rules";
+import type {
+	AppBindings,
+	DeliveryJob,
+	Rule,
+	WatchedFolder,
+} from "./types";
+import { createMockEnv, type MockQueue, mockFetch } from "./testing";
+
+const folders: WatchedFolder[] = [
+	{ id: "folder_a", createdAt: 0 },
+	{ id: "folder_b", createdAt: 0 },
+];
+
+const rule = (overrides: Partial<Rule>): Rule => ({
+	id: "rule",
+	folderId: "folder_a",
+	enabled: true,
+	conditions: {},
+	actions: [],
+	createdAt: 0,
+	...overrides,
+});
+
+const change: DriveChange = {
+	type: "created",
+	file: {
+		id: "file_1",
+		name: "Invoice-2026.pdf",
+		mimeType: "application/pdf",
+		parents: ["folder_a", "folder_b"],
+		size: "2048",
+		owners: [{ emailAddress: "Owner@example.com" }],
+		lastModifyingUser: { emailAddress: "editor@example.com" },
+	},
+};
+
+describe("Rule registry", () => {
+	let mockEnv: AppBindings;
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+	});
+
+	test("stores rules per account", async () => {
+		const created = await createRule(
+			mockEnv,
+			{ folderId: "folder_a", enabled: true, conditions: {}, actions: [] },
+			"team_b",
+		);
+
+		expect(await listRules(mockEnv)).toEqual([]);
+		expect(await listRules(mockEnv, "team_b")).toEqual([created]);
+
+		expect(await deleteRule(mockEnv, created.id)).toBe(false);
+		expect(await deleteRule(mockEnv, created.id, "team_b")).toBe(true);
+		expect(await listRules(mockEnv, "team_b")).toEqual([]);
+	});
+});
+
+describe("ruleMatches", () => {
+	test("matches when every set condition holds", () => {
+		expect(
+			ruleMatches(
+				{
+					events: ["created"],
+					mimeTypes: ["application/*"],
+					nameGlob: "Invoice-*.pdf",
+					namePattern: "\\d{4}",
+					minSize: 1024,
+					maxSize: 4096,
+					owners: ["owner@example.com"],
+					modifiedBy: ["EDITOR@example.com"],
+				},
+				change,
+			),
+		).toBe(true);
+	});
+
+	test("rejects a change failing any condition", () => {
+		expect(ruleMatches({ events: ["removed"] }, change)).toBe(false);
+		expect(ruleMatches({ mimeTypes: ["image/*"] }, change)).toBe(false);
+		expect(ruleMatches({ nameGlob: "*.docx" }, change)).toBe(false);
+		expect(ruleMatches({ namePattern: "^Receipt" }, change)).toBe(false);
+		expect(ruleMatches({ maxSize: 1024 }, change)).toBe(false);
+		expect(ruleMatches({ owners: ["someone@example.com"] }, change)).toBe(
+			false,
+		);
+		expect(ruleMatches({ modifiedBy: ["owner@example.com"] }, change)).toBe(
+			false,
+		);
+	});
+
+	test("treats glob metacharacters other than * and ? literally", () => {
+		expect(ruleMatches({ nameGlob: "Invoice-????.pdf" }, change)).toBe(true);
+		expect(ruleMatches({ nameGlob: "Invoice-2026.pd." }, change)).toBe(false);
+	});
+
+	test("never matches a size condition without a size", () => {
+		const doc: DriveChange = {
+			type: "modified",
+			file: { id: "doc", name: "Notes" },
+		};
+
+		expect(ruleMatches({ minSize: 0 }, doc)).toBe(false);
+	});
+});
+
+describe("evaluateRules", () => {
+	test("collects tags and actions from matching rules", () => {
+		const evaluation = evaluateRules(
+			[
+				rule({
+					id: "tagger",
+					actions: [
+						{ type: "tag", tags: ["finance"] },
+						{ type: "copy", folderId: "archive" },
+					],
+				}),
+				rule({ id: "other", conditions: { nameGlob: "*.png" } }),
+				rule({
+					id: "disabled",
+					enabled: false,
+					actions: [{ type: "tag", tags: ["never"] }],
+				}),
+			],
+			change,
+			folders,
+		);
+
+		expect(evaluation.matched.map((r) => r.id)).toEqual(["tagger"]);
+		expect(evaluation.folders).toEqual(folders);
+		expect(evaluation.tags).toEqual(["finance"]);
+		expect(evaluation.actions.map(({ action }) => action)).toEqual([
+			{ type: "copy", folderId: "archive" },
+		]);
+	});
+
+	test("ignore drops the folder and its other actions", () => {
+		const evaluation = evaluateRules(
+			[
+				rule({ id: "skip", actions: [{ type: "ignore" }] }),
+				rule({
+					id: "notify",
+					actions: [{ type: "notify" }, { type: "tag", tags: ["a"] }],
+				}),
+				rule({
+					id: "b",
+					folderId: "folder_b",
+					actions: [{ type: "tag", tags: ["b"] }],
+				}),
+			],
+			change,
+			folders,
+		);
+
+		expect(evaluation.folders.map((folder) => folder.id)).toEqual([
+			"folder_b",
+		]);
+		expect(evaluation.tags).toEqual(["b"]);
+		expect(evaluation.actions).toEqual([]);
+	});
+});
+
+describe("runRuleActions", () => {
+	let mockEnv: AppBindings;
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+	});
+
+	test("copies and moves the file through the Drive API", async () => {
+		const fetchMock = mockFetch((_url: string, _init?: RequestInit) =>
+			Promise.resolve(new Response("{}")),
+		);
+
+		const evaluation = evaluateRules(
+			[
+				rule({
+					actions: [
+						{ type: "copy", folderId: "archive" },
+						{ type: "move", folderId: "sorted" },
+					],
+				}),
+			],
+			change,
+			folders,
+		);
+		await runRuleActions(mockEnv, "default", "token", change, evaluation);
+
+		const [copy, move] = fetchMock.mock.calls;
+		expect(copy[0]).toContain("/files/file_1/copy");
+		expect(copy[1]?.method).toBe("POST");
+		expect(JSON.parse(copy[1]?.body as string)).toEqual({
+			name: "Invoice-2026.pdf",
+			parents: ["archive"],
+		});
+
+		const params = new URL(move[0]).searchParams;
+		expect(move[1]?.method).toBe("PATCH");
+		expect(params.get("addParents")).toBe("sorted");
+		expect(params.get("removeParents")).toBe("folder_a,folder_b");
+	});
+
+	test("skips files already in the target folder or removed", async () => {
+		const fetchMock = mockFetch(() => Promise.resolve(new Response("{}")));
+
+		const evaluation = evaluateRules(
+			[rule({ actions: [{ type: "move", folderId: "folder_b" }] })],
+			change,
+			folders,
+		);
+		await runRuleActions(mockEnv, "default", "token", change, evaluation);
+		await runRuleActions(
+			mockEnv,
+			"default",
+			"token",
+			{ ...change, type: "removed", removed: true },
+			evaluateRules(
+				[rule({ actions: [{ type: "copy", folderId: "archive" }] })],
+				change,
+				folders,
+			),
+		);
+
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	test("notifies the chosen subscribers with the rule", async () => {
+		await mockEnv.drive_kv.put(
+			"subscriptions",
+			JSON.stringify([
+				{
+					id: "sub_1",
+					url: "https://hooks.example.com/a",
+					secret: "a",
+					createdAt: 0,
+				},
+				{
+					id: "sub_2",
+					url: "https://hooks.example.com/b",
+					secret: "b",
+					createdAt: 0,
+				},
+			]),
+		);
+		const evaluation = evaluateRules(
+			[
+				rule({
+					name: "Invoices",
+					actions: [{ type: "notify", destinations: ["sub_2"] }],
+				}),
+			],
+			change,
+			folders,
+		);
+		await runRuleActions(mockEnv, "default", "token", change, evaluation);
+
+		const queued = (mockEnv.CHANGE_QUEUE as unknown as MockQueue).sent;
+		expect(queued).toHaveLength(1);
+
+		const [job] = queued as DeliveryJob[];
+		expect(job?.subscriptionId).toBe("sub_2");
+
+		const payload = JSON.parse(job?.body ?? "");
+		expect(payload.event).toBe("rule.matched");
+		expect(payload.data.rule).toEqual({
+			id: "rule",
+			name: "Invoices",
+			folderId: "folder_a",
+		});
+	});
+});
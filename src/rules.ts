@@ -0,0 +1,281 @@
+import { accountKey, DEFAULT_ACCOUNT_ID } from "./accounts";
+import type { DriveChange } from "./drive";
+import { copyFile, type DriveResult, moveFile } from "./drive";
+import { mimeTypeMatches } from "./folders";
+import { deliverToSubscribers } from "./subscriptions";
+import type {
+	AppBindings,
+	Rule,
+	RuleAction,
+	RuleConditions,
+	WatchedFolder,
+} from "./types";
+import { logger } from "./utils";
+
+/* -------------------------------------------------------------------------- */
+/*                                Rule Registry                               */
+/* -------------------------------------------------------------------------- */
+
+const RULES_KEY = "rules";
+
+export async function listRules(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<Rule[]> {
+	const raw = await env.drive_kv.get(accountKey(accountId, RULES_KEY));
+	return raw ? (JSON.parse(raw) as Rule[]) : [];
+}
+
+export async function createRule(
+	env: AppBindings,
+	options: Omit<Rule, "id" | "createdAt">,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<Rule> {
+	const rule: Rule = {
+		id: crypto.randomUUID(),
+		...options,
+		createdAt: Date.now(),
+	};
+
+	const rules = await listRules(env, accountId);
+	rules.push(rule);
+	await env.drive_kv.put(
+		accountKey(accountId, RULES_KEY),
+		JSON.stringify(rules),
+	);
+
+	return rule;
+}
+
+export async function deleteRule(
+	env: AppBindings,
+	id: string,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<boolean> {
+	const rules = await listRules(env, accountId);
+	const remaining = rules.filter((rule) => rule.id !== id);
+
+	if (remaining.length === rules.length) {
+		return false;
+	}
+
+	await env.drive_kv.put(
+		accountKey(accountId, RULES_KEY),
+		JSON.stringify(remaining),
+	);
+
+	return true;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Rule Evaluation                              */
+/* -------------------------------------------------------------------------- */
+
+// `*` is any run of characters and `?` a single one; the rest is literal
+function globToRegExp(glob: string) {
+	const source = glob
+		.split("")
+		.map((char) => {
+			if (char === "*") return ".*";
+			if (char === "?") return ".";
+			return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+
+	return new RegExp(`^${source}$`);
+}
+
+function includesEmail(list: string[], email?: string) {
+	const wanted = email?.toLowerCase();
+	return Boolean(
+		wanted && list.some((entry) => entry.toLowerCase() === wanted),
+	);
+}
+
+export function ruleMatches(
+	conditions: RuleConditions,
+	change: DriveChange,
+): boolean {
+	const file = change.file;
+	const name = file?.name ?? "";
+
+	if (conditions.events?.length) {
+		if (!change.type || !conditions.events.includes(change.type)) return false;
+	}
+
+	if (conditions.mimeTypes?.length) {
+		if (!mimeTypeMatches(conditions.mimeTypes, file?.mimeType)) return false;
+	}
+
+	if (conditions.nameGlob && !globToRegExp(conditions.nameGlob).test(name)) {
+		return false;
+	}
+
+	if (
+		conditions.namePattern &&
+		!new RegExp(conditions.namePattern).test(name)
+	) {
+		return false;
+	}
+
+	// Files without a size (Docs, Sheets, Slides) never meet a size condition
+	if (conditions.minSize !== undefined || conditions.maxSize !== undefined) {
+		const size = Number(file?.size ?? Number.NaN);
+		if (Number.isNaN(size)) return false;
+		if (conditions.minSize !== undefined && size < conditions.minSize) {
+			return false;
+		}
+		if (conditions.maxSize !== undefined && size > conditions.maxSize) {
+			return false;
+		}
+	}
+
+	if (conditions.owners?.length) {
+		const owners = file?.owners ?? [];
+		if (
+			!owners.some((owner) =>
+				includesEmail(conditions.owners ?? [], owner.emailAddress),
+			)
+		) {
+			return false;
+		}
+	}
+
+	if (conditions.modifiedBy?.length) {
+		const editor = file?.lastModifyingUser?.emailAddress;
+		if (!includesEmail(conditions.modifiedBy, editor)) return false;
+	}
+
+	return true;
+}
+
+export interface RuleEvaluation {
+	/** Enabled rules whose conditions matched, in evaluation order */
+	matched: Rule[];
+	/** Folders that still want the change after `ignore` rules */
+	folders: WatchedFolder[];
+	/** Labels from `tag` actions */
+	tags: string[];
+	/** Remaining actions to run, with the rule that asked for each */
+	actions: {
+		rule: Rule;
+		action: Extract<RuleAction, { type: "notify" | "copy" | "move" }>;
+	}[];
+}
+
+/**
+ * Evaluate each folder's rules against a classified change. A matching
+ * `ignore` drops the change for that folder, together with every other
+ * action its rules would have run there.
+ */
+export function evaluateRules(
+	rules: Rule[],
+	change: DriveChange,
+	folders: WatchedFolder[],
+): RuleEvaluation {
+	const evaluation: RuleEvaluation = {
+		matched: [],
+		folders: [],
+		tags: [],
+		actions: [],
+	};
+
+	for (const folder of folders) {
+		const matched = rules.filter(
+			(rule) =>
+				rule.enabled &&
+				rule.folderId === folder.id &&
+				ruleMatches(rule.conditions, change),
+		);
+		evaluation.matched.push(...matched);
+
+		const actions = matched.flatMap((rule) =>
+			rule.actions.map((action) => ({ rule, action })),
+		);
+		if (actions.some(({ action }) => action.type === "ignore")) continue;
+
+		evaluation.folders.push(folder);
+		for (const { rule, action } of actions) {
+			if (action.type === "tag") {
+				evaluation.tags.push(...action.tags);
+			} else if (action.type !== "ignore") {
+				evaluation.actions.push({ rule, action });
+			}
+		}
+	}
+
+	evaluation.tags = [...new Set(evaluation.tags)];
+	return evaluation;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Rule Actions                               */
+/* -------------------------------------------------------------------------- */
+
+function assertOk(res: DriveResult<unknown>) {
+	if (!res.ok) {
+		throw new Error(`Drive API error (${res.status}): ${res.error}`);
+	}
+}
+
+/**
+ * Run the notify, copy and move actions of an evaluation. Copies and moves
+ * skip files that already sit in the target folder, so the change they cause
+ * does not trigger them again. Failures are logged per action.
+ */
+export async function runRuleActions(
+	env: AppBindings,
+	accountId: string,
+	accessToken: string,
+	change: DriveChange,
+	evaluation: RuleEvaluation,
+) {
+	const file = change.file;
+
+	for (const { rule, action } of evaluation.actions) {
+		try {
+			if (action.type === "notify") {
+				await deliverToSubscribers(
+					env,
+					accountId,
+					"rule.matched",
+					{
+						rule: { id: rule.id, name: rule.name, folderId: rule.folderId },
+						change,
+					},
+					action.destinations,
+				);
+				continue;
+			}
+
+			// Copy and move need a live file outside the target folder
+			if (!file || change.removed || file.trashed) continue;
+			if (file.parents?.includes(action.folderId)) continue;
+
+			if (action.type === "copy") {
+				assertOk(
+					await copyFile(accessToken, file.id, {
+						name: file.name,
+						parents: [action.folderId],
+					}),
+				);
+			} else {
+				assertOk(
+					await moveFile(accessToken, file.id, {
+						addParents: action.folderId,
+						removeParents: file.parents ?? [],
+					}),
+				);
+			}
+
+			logger.log(
+				`📐 Rule ${rule.name ?? rule.id}: ${action.type} ${file.name} → ${action.folderId}`,
+			);
+		} catch (error: unknown) {
+			logger.error(
+				`🚨 Rule ${rule.name ?? rule.id} failed to ${action.type}`,
+				error instanceof Error ? error.message : error,
+			);
+		}
+	}
+}
@@ -0,0 +1,155 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { accountKey, DEFAULT_ACCOUNT_ID } from "./accounts";
+import type { AppBindings } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                               Scope Profiles                               */
+/* -------------------------------------------------------------------------- */
+
+const SCOPE_URL = "https://www.googleapis.com/auth";
+
+const DRIVE = `${SCOPE_URL}/drive`;
+const DRIVE_READONLY = `${SCOPE_URL}/drive.readonly`;
+const DRIVE_FILE = `${SCOPE_URL}/drive.file`;
+const DRIVE_METADATA = `${SCOPE_URL}/drive.metadata`;
+const DRIVE_METADATA_READONLY = `${SCOPE_URL}/drive.metadata.readonly`;
+
+/** Scopes requested by each `scope_profile` of `/oauth/url` */
+export const SCOPE_PROFILES = {
+	/** Names, parents and change feed; no file content */
+	metadata: [DRIVE_METADATA_READONLY],
+	/** Read metadata and content of every file */
+	readonly: [DRIVE_READONLY],
+	/** Full access, but only to files the app created or was given */
+	file: [DRIVE_FILE],
+	/** Full access to the whole Drive */
+	full: [DRIVE],
+} as const;
+
+export type ScopeProfile = keyof typeof SCOPE_PROFILES;
+
+export const DEFAULT_SCOPE_PROFILE: ScopeProfile = "full";
+
+/** What a route does with Drive, and the scopes that allow it */
+const CAPABILITY_SCOPES = {
+	metadata: [
+		DRIVE,
+		DRIVE_READONLY,
+		DRIVE_FILE,
+		DRIVE_METADATA,
+		DRIVE_METADATA_READONLY,
+	],
+	content: [DRIVE, DRIVE_READONLY, DRIVE_FILE],
+	write: [DRIVE, DRIVE_FILE],
+} as const;
+
+export type ScopeCapability = keyof typeof CAPABILITY_SCOPES;
+
+/** Narrowest profile the granted scopes cover, to ask for the same access again */
+export function profileForScopes(granted: string[] | null): ScopeProfile {
+	const profiles = Object.keys(SCOPE_PROFILES) as ScopeProfile[];
+	return (
+		profiles.find((profile) =>
+			SCOPE_PROFILES[profile].every((scope) => granted?.includes(scope)),
+		) ?? DEFAULT_SCOPE_PROFILE
+	);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Granted Scopes                               */
+/* -------------------------------------------------------------------------- */
+
+const SCOPE_KEY = "scope";
+
+/** Granted scopes; `null` for accounts authorized before scopes were stored */
+export async function getGrantedScopes(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<string[] | null> {
+	const scope = await env.drive_kv.get(accountKey(accountId, SCOPE_KEY));
+	return scope ? scope.split(" ").filter(Boolean) : null;
+}
+
+export async function setGrantedScopes(
+	env: AppBindings,
+	accountId: string,
+	scope?: string | null,
+) {
+	if (scope) await env.drive_kv.put(accountKey(accountId, SCOPE_KEY), scope);
+}
+
+export type ScopeCheck =
+	| { ok: true }
+	| { ok: false; required: ScopeCapability; granted: string[] };
+
+/** Unknown grants are assumed to be the full scope they used to be */
+export async function checkScope(
+	env: AppBindings,
+	accountId: string,
+	capability: ScopeCapability,
+): Promise<ScopeCheck> {
+	const granted = await getGrantedScopes(env, accountId);
+	const allowed: readonly string[] = CAPABILITY_SCOPES[capability];
+
+	if (!granted || granted.some((scope) => allowed.includes(scope))) {
+		return { ok: true };
+	}
+
+	return { ok: false, required: capability, granted };
+}
+
+// Profiles whose scopes would have been enough
+function sufficientProfiles(capability: ScopeCapability) {
+	const allowed: readonly string[] = CAPABILITY_SCOPES[capability];
+	return (Object.keys(SCOPE_PROFILES) as ScopeProfile[]).filter((profile) =>
+		SCOPE_PROFILES[profile].some((scope) => allowed.includes(scope)),
+	);
+}
+
+export function insufficientScope(
+	c: Context,
+	check: Extract<ScopeCheck, { ok: false }>,
+) {
+	return c.json(
+		{
+			message: `Insufficient OAuth scope: this route needs ${check.required} access`,
+			required: check.required,
+			granted: check.granted,
+			profiles: sufficientProfiles(check.required),
+		},
+		403,
+	);
+}
+
+/** `account_id` from the query string or JSON body, as the route validated it */
+export async function requestAccountId(c: Context) {
+	const fromQuery = c.req.query("account_id");
+	if (fromQuery) return fromQuery;
+
+	if (c.req.header("Content-Type")?.includes("application/json")) {
+		const body = await c.req.json().catch(() => null);
+		if (typeof body?.account_id === "string" && body.account_id.trim()) {
+			return body.account_id.trim();
+		}
+	}
+
+	return DEFAULT_ACCOUNT_ID;
+}
+
+/**
+ * Answer 403 before calling Drive when the account's grant cannot do what the
+ * route needs. Mount it after the route's validator.
+ */
+export function requireScope(
+	capability: ScopeCapability,
+): MiddlewareHandler<{ Bindings: AppBindings }> {
+	return async (c, next) => {
+		const check = await checkScope(
+			c.env,
+			await requestAccountId(c),
+			capability,
+		);
+
+		return check.ok ? next() : insufficientScope(c, check);
+	};
+}
@@ -0,0 +1,190 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import {
+	createSubscription,
+	DELIVERY_HEADER,
+	deleteSubscription,
+	deliverToSubscribers,
+	getDeliveryLog,
+	runDelivery,
+	SIGNATURE_HEADER,
+	signPayload,
+} from "./subscriptions";
+import type { AppBindings, DeliveryJob, DeliveryRecord } from "./types";
+import { createMockEnv, type MockQueue } from "./testing";
+
+// Local HTTP stub standing in for a subscriber
+type ReceivedDelivery = { headers: Headers; body: string };
+
+const received: ReceivedDelivery[] = [];
+let failuresBeforeSuccess = 0;
+
+const stub = Bun.serve({
+	port: 0,
+	async fetch(req) {
+		received.push({ headers: req.headers, body: await req.text() });
+
+		if (new URL(req.url).pathname === "/reject") {
+			return new Response("Bad Request", { status: 400 });
+		}
+
+		if (failuresBeforeSuccess > 0) {
+			failuresBeforeSuccess -= 1;
+			return new Response("Unavailable", { status: 503 });
+		}
+
+		return new Response("OK", { status: 200 });
+	},
+});
+
+afterAll(() => {
+	stub.stop(true);
+});
+
+// Attempt queued deliveries the way the consumer does, retries included
+const drain = async (env: AppBindings) => {
+	const queue = env.CHANGE_QUEUE as unknown as MockQueue;
+	const records: (DeliveryRecord | null)[] = [];
+
+	for (let job = queue.sent.shift(); job; job = queue.sent.shift()) {
+		records.push(await runDelivery(env, job as DeliveryJob));
+	}
+	return records;
+};
+
+describe("deliverToSubscribers", () => {
+	let mockEnv: AppBindings;
+
+	beforeEach(() => {
+		mockEnv = createMockEnv();
+		received.length = 0;
+		failuresBeforeSuccess = 0;
+	});
+
+	test("should queue deliveries instead of sending them", async () => {
+		await createSubscription(mockEnv, {
+			url: `${stub.url}hook`,
+			secret: "subscriber_secret_123",
+		});
+
+		const jobs = await deliverToSubscribers(
+			mockEnv,
+			"default",
+			"file.uploaded",
+			{},
+		);
+
+		expect(received).toHaveLength(0);
+		expect((mockEnv.CHANGE_QUEUE as unknown as MockQueue).sent).toEqual(jobs);
+		expect(jobs[0]).toMatchObject({ kind: "delivery", attempts: 0 });
+	});
+
+	test("should POST a signed payload with a delivery ID", async () => {
+		const subscription = await createSubscription(mockEnv, {
+			url: `${stub.url}hook`,
+			secret: "subscriber_secret_123",
+		});
+
+		await deliverToSubscribers(mockEnv, "default", "file.uploaded", {
+			fileId: "file123",
+		});
+		const [record] = await drain(mockEnv);
+
+		expect(record?.success).toBe(true);
+		expect(received).toHaveLength(1);
+
+		const delivery = received[0] as ReceivedDelivery;
+		const payload = JSON.parse(delivery.body);
+
+		expect(payload.event).toBe("file.uploaded");
+		expect(payload.data).toEqual({ fileId: "file123" });
+		expect(delivery.headers.get(DELIVERY_HEADER)).toBe(payload.id);
+		expect(delivery.headers.get(SIGNATURE_HEADER)).toBe(
+			await signPayload(subscription.secret, delivery.body),
+		);
+	});
+
+	test("should requeue server errors with backoff", async () => {
+		failuresBeforeSuccess = 2;
+
+		const subscription = await createSubscription(mockEnv, {
+			url: `${stub.url}hook`,
+			secret: "subscriber_secret_123",
+		});
+
+		await deliverToSubscribers(mockEnv, "default", "file.uploaded", {});
+		const records = await drain(mockEnv);
+
+		expect(records.map((record) => record?.attempts)).toEqual([1, 2, 3]);
+		expect(records[0]?.nextAttemptAt).toBeDefined();
+		expect(records[2]?.nextAttemptAt).toBeUndefined();
+		expect((mockEnv.CHANGE_QUEUE as unknown as MockQueue).delays).toEqual([
+			undefined,
+			10,
+			20,
+		]);
+
+		// Every attempt re-sends the same delivery
+		const ids = new Set(received.map((r) => r.headers.get(DELIVERY_HEADER)));
+		expect(ids.size).toBe(1);
+
+		const log = await getDeliveryLog(mockEnv, subscription.id);
+		expect(log).toHaveLength(1);
+		expect(log[0]).toMatchObject({ success: true, attempts: 3 });
+	});
+
+	test("should only deliver to the account's own subscribers", async () => {
+		const own = await createSubscription(
+			mockEnv,
+			{ url: `${stub.url}team_a`, secret: "subscriber_secret_123" },
+			"team_a",
+		);
+		const other = await createSubscription(
+			mockEnv,
+			{ url: `${stub.url}team_b`, secret: "subscriber_secret_123" },
+			"team_b",
+		);
+
+		const jobs = await deliverToSubscribers(
+			mockEnv,
+			"team_a",
+			"file.uploaded",
+			{},
+		);
+		await drain(mockEnv);
+
+		expect(jobs).toHaveLength(1);
+		expect(received.map((r) => r.headers.get(DELIVERY_HEADER))).toEqual([
+			jobs[0]?.deliveryId ?? "",
+		]);
+		expect(await getDeliveryLog(mockEnv, own.id, "team_a")).toHaveLength(1);
+		expect(await getDeliveryLog(mockEnv, own.id)).toEqual([]);
+		expect(await getDeliveryLog(mockEnv, other.id, "team_b")).toEqual([]);
+	});
+
+	test("should not retry client errors", async () => {
+		await createSubscription(mockEnv, {
+			url: `${stub.url}reject`,
+			secret: "subscriber_secret_123",
+		});
+
+		await deliverToSubscribers(mockEnv, "default", "file.uploaded", {});
+		const records = await drain(mockEnv);
+
+		expect(records).toHaveLength(1);
+		expect(records[0]?.success).toBe(false);
+		expect(records[0]?.status).toBe(400);
+	});
+
+	test("should drop deliveries to removed subscribers", async () => {
+		const subscription = await createSubscription(mockEnv, {
+			url: `${stub.url}hook`,
+			secret: "subscriber_secret_123",
+		});
+
+		await deliverToSubscribers(mockEnv, "default", "file.uploaded", {});
+		await deleteSubscription(mockEnv, subscription.id);
+
+		expect(await drain(mockEnv)).toEqual([null]);
+		expect(received).toHaveLength(0);
+	});
+});
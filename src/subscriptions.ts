@@ -0,0 +1,266 @@
+import { accountKey, DEFAULT_ACCOUNT_ID } from "./accounts";
+import type {
+	AppBindings,
+	DeliveryJob,
+	DeliveryRecord,
+	Subscription,
+} from "./types";
+import { logger } from "./utils";
+
+/* -------------------------------------------------------------------------- */
+/*                            Subscription Registry                           */
+/* -------------------------------------------------------------------------- */
+
+const SUBSCRIPTIONS_KEY = "subscriptions";
+const DELIVERY_LOG_PREFIX = "subscription_deliveries";
+const DELIVERY_LOG_LIMIT = 50;
+
+const deliveryLogKey = (accountId: string, id: string) =>
+	accountKey(accountId, `${DELIVERY_LOG_PREFIX}:${id}`);
+
+export async function listSubscriptions(
+	env: AppBindings,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<Subscription[]> {
+	const raw = await env.drive_kv.get(accountKey(accountId, SUBSCRIPTIONS_KEY));
+	return raw ? (JSON.parse(raw) as Subscription[]) : [];
+}
+
+export async function createSubscription(
+	env: AppBindings,
+	options: Pick<Subscription, "url" | "secret" | "description">,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<Subscription> {
+	const subscription: Subscription = {
+		id: crypto.randomUUID(),
+		url: options.url,
+		secret: options.secret,
+		description: options.description,
+		createdAt: Date.now(),
+	};
+
+	const subscriptions = await listSubscriptions(env, accountId);
+	subscriptions.push(subscription);
+	await env.drive_kv.put(
+		accountKey(accountId, SUBSCRIPTIONS_KEY),
+		JSON.stringify(subscriptions),
+	);
+
+	return subscription;
+}
+
+export async function deleteSubscription(
+	env: AppBindings,
+	id: string,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<boolean> {
+	const subscriptions = await listSubscriptions(env, accountId);
+	const remaining = subscriptions.filter((sub) => sub.id !== id);
+
+	if (remaining.length === subscriptions.length) {
+		return false;
+	}
+
+	await Promise.all([
+		env.drive_kv.put(
+			accountKey(accountId, SUBSCRIPTIONS_KEY),
+			JSON.stringify(remaining),
+		),
+		env.drive_kv.delete(deliveryLogKey(accountId, id)),
+	]);
+
+	return true;
+}
+
+export async function getDeliveryLog(
+	env: AppBindings,
+	id: string,
+	accountId: string = DEFAULT_ACCOUNT_ID,
+): Promise<DeliveryRecord[]> {
+	const raw = await env.drive_kv.get(deliveryLogKey(accountId, id));
+	return raw ? (JSON.parse(raw) as DeliveryRecord[]) : [];
+}
+
+// One record per delivery: each attempt replaces the previous one
+async function recordDelivery(
+	env: AppBindings,
+	accountId: string,
+	id: string,
+	record: DeliveryRecord,
+) {
+	const log = (await getDeliveryLog(env, id, accountId)).filter(
+		(entry) => entry.deliveryId !== record.deliveryId,
+	);
+	log.unshift(record);
+
+	await env.drive_kv.put(
+		deliveryLogKey(accountId, id),
+		JSON.stringify(log.slice(0, DELIVERY_LOG_LIMIT)),
+	);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Signed Deliveries                             */
+/* -------------------------------------------------------------------------- */
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_SECONDS = 10;
+
+export const SIGNATURE_HEADER = "X-Drive-Webhook-Signature";
+export const DELIVERY_HEADER = "X-Drive-Webhook-Delivery";
+export const EVENT_HEADER = "X-Drive-Webhook-Event";
+
+export async function signPayload(
+	secret: string,
+	body: string,
+): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+
+	const hex = Array.from(new Uint8Array(signature))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+
+	return `sha256=${hex}`;
+}
+
+// Retry network failures, throttling and server errors; other 4xx are final
+function isRetryable(status?: number) {
+	return (
+		status === undefined || status === 408 || status === 429 || status >= 500
+	);
+}
+
+async function attemptDelivery(
+	subscription: Subscription,
+	job: DeliveryJob,
+): Promise<DeliveryRecord> {
+	const record: DeliveryRecord = {
+		deliveryId: job.deliveryId,
+		event: job.event,
+		success: false,
+		attempts: job.attempts + 1,
+		deliveredAt: 0,
+	};
+
+	try {
+		const res = await fetch(subscription.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				[SIGNATURE_HEADER]: await signPayload(subscription.secret, job.body),
+				[DELIVERY_HEADER]: job.deliveryId,
+				[EVENT_HEADER]: job.event,
+			},
+			body: job.body,
+		});
+
+		record.status = res.status;
+		record.success = res.ok;
+		if (!res.ok) record.error = `HTTP ${res.status}`;
+	} catch (error: unknown) {
+		record.error = error instanceof Error ? error.message : "Unknown error";
+	}
+
+	record.deliveredAt = Date.now();
+	return record;
+}
+
+/**
+ * Queue a delivery to each of the account's subscribers, or only to
+ * `subscriptionIds`. Attempts run in the queue consumer, so the change walk
+ * never waits on a subscriber.
+ */
+export async function deliverToSubscribers(
+	env: AppBindings,
+	accountId: string,
+	event: string,
+	data: unknown,
+	subscriptionIds?: string[],
+): Promise<DeliveryJob[]> {
+	const subscriptions = (await listSubscriptions(env, accountId)).filter(
+		(sub) => !subscriptionIds || subscriptionIds.includes(sub.id),
+	);
+
+	const jobs = subscriptions.map((subscription): DeliveryJob => {
+		const deliveryId = crypto.randomUUID();
+		return {
+			kind: "delivery",
+			accountId,
+			subscriptionId: subscription.id,
+			deliveryId,
+			event,
+			body: JSON.stringify({
+				id: deliveryId,
+				event,
+				timestamp: Date.now(),
+				data,
+			}),
+			attempts: 0,
+		};
+	});
+
+	if (jobs.length) {
+		await env.CHANGE_QUEUE.sendBatch(jobs.map((body) => ({ body })));
+	}
+
+	return jobs;
+}
+
+/**
+ * Make the next attempt of a queued delivery. Retryable failures go back on
+ * the queue with exponential backoff (10s, 20s, 40s); `null` when the
+ * subscription was removed in the meantime.
+ */
+export async function runDelivery(
+	env: AppBindings,
+	job: DeliveryJob,
+): Promise<DeliveryRecord | null> {
+	const subscription = (await listSubscriptions(env, job.accountId)).find(
+		(sub) => sub.id === job.subscriptionId,
+	);
+
+	if (!subscription) {
+		logger.warn(`⚠️ Dropping delivery ${job.deliveryId}, subscriber removed`);
+		return null;
+	}
+
+	const record = await attemptDelivery(subscription, job);
+
+	if (
+		!record.success &&
+		record.attempts < MAX_ATTEMPTS &&
+		isRetryable(record.status)
+	) {
+		const delaySeconds = BASE_BACKOFF_SECONDS * 2 ** (record.attempts - 1);
+		record.nextAttemptAt = record.deliveredAt + delaySeconds * 1000;
+
+		await env.CHANGE_QUEUE.send(
+			{ ...job, attempts: record.attempts },
+			{ delaySeconds },
+		);
+	}
+
+	await recordDelivery(env, job.accountId, subscription.id, record);
+
+	if (record.success) {
+		logger.log(`📬 Delivered ${job.event} to ${subscription.url}`);
+	} else if (record.nextAttemptAt) {
+		logger.warn(
+			`⚠️ Delivery to ${subscription.url} failed (${record.error}), retry queued`,
+		);
+	} else {
+		logger.error(
+			`🚨 Delivery to ${subscription.url} failed after ${record.attempts} attempt(s): ${record.error}`,
+		);
+	}
+
+	return record;
+}
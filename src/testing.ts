@@ -0,0 +1,145 @@
+import { mock } from "bun:test";
+import type {
+	DurableObjectNamespace,
+	KVNamespace,
+	MessageSendRequest,
+	QueueSendOptions,
+} from "@cloudflare/workers-types";
+import type { AppBindings, QueueJob } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                                 Test Doubles                               */
+/* -------------------------------------------------------------------------- */
+
+/** Base64 AES-256 key the mock environments seal secrets with */
+export const TEST_MASTER_KEY = btoa("0123456789abcdef0123456789abcdef");
+
+// Mock KV storage
+class MockKV {
+	private store = new Map<string, string>();
+
+	async get(key: string): Promise<string | null> {
+		return this.store.get(key) || null;
+	}
+
+	async put(key: string, value: string): Promise<void> {
+		this.store.set(key, value);
+	}
+
+	async delete(key: string): Promise<void> {
+		this.store.delete(key);
+	}
+
+	clear() {
+		this.store.clear();
+	}
+}
+
+// Mock Durable Object storage
+export class MockStorage {
+	private store = new Map<string, unknown>();
+	alarm?: number;
+
+	async get<T>(key: string): Promise<T | undefined> {
+		return this.store.get(key) as T | undefined;
+	}
+
+	async put(key: string, value: unknown): Promise<void> {
+		this.store.set(key, value);
+	}
+
+	async delete(key: string): Promise<boolean> {
+		return this.store.delete(key);
+	}
+
+	async deleteAll(): Promise<void> {
+		this.store.clear();
+	}
+
+	async setAlarm(time: number): Promise<void> {
+		this.alarm = time;
+	}
+}
+
+// Mock Cloudflare Queue: keeps sent jobs until a test drains them
+export class MockQueue {
+	sent: QueueJob[] = [];
+	// Delay of every send so far, in order; draining `sent` keeps these
+	delays: (number | undefined)[] = [];
+
+	async send(body: QueueJob, options?: QueueSendOptions): Promise<void> {
+		this.sent.push(body);
+		this.delays.push(options?.delaySeconds);
+	}
+
+	async sendBatch(messages: Iterable<MessageSendRequest<QueueJob>>) {
+		for (const { body, delaySeconds } of messages) {
+			await this.send(body, { delaySeconds });
+		}
+	}
+}
+
+/**
+ * Bindings backed by an empty `MockKV` and `MockQueue`; Durable Objects are
+ * inert unless `overrides` replaces them
+ */
+export const createMockEnv = (
+	overrides: Partial<AppBindings> = {},
+): AppBindings => ({
+	MASTER_KEY: TEST_MASTER_KEY,
+	WEBHOOK_AUTH_KEY: "test_auth_key",
+	CLOUDFLARE_API_TOKEN: "test_cf_token",
+	drive_kv: new MockKV() as unknown as KVNamespace,
+	CHANGE_PROCESSOR: {} as DurableObjectNamespace,
+	RATE_LIMITER: {} as DurableObjectNamespace,
+	CHANGE_QUEUE: new MockQueue() as unknown as AppBindings["CHANGE_QUEUE"],
+	...overrides,
+});
+
+export const jsonResponse = (body: unknown, status = 200) =>
+	new Response(JSON.stringify(body), { status });
+
+type FetchHandler = (
+	url: string,
+	init?: RequestInit,
+) => Response | Promise<Response>;
+
+/**
+ * Route the global `fetch` through `handler`; the returned mock records
+ * every call with its URL as a string
+ */
+export const mockFetch = (handler: FetchHandler) => {
+	const fetchMock = mock(handler);
+
+	globalThis.fetch = Object.assign(
+		async (input: string | URL | Request, init?: RequestInit) =>
+			fetchMock(input instanceof Request ? input.url : String(input), init),
+		{ preconnect: fetch.preconnect },
+	);
+	return fetchMock;
+};
+
+/**
+ * In-memory Cache API for the route cache; pass `ctx` to `app.fetch` so
+ * responses are stored the way the Workers runtime stores them
+ */
+export const mockCaches = () => {
+	const entries = new Map<string, Response>();
+	const cache = {
+		match: async (key: string) => entries.get(key)?.clone(),
+		put: async (key: string, res: Response) => {
+			entries.set(key, res);
+		},
+	};
+	globalThis.caches = { open: async () => cache } as unknown as CacheStorage;
+
+	return {
+		entries,
+		ctx: {
+			waitUntil: (_promise: Promise<unknown>) => {},
+			passThroughOnException: () => {},
+			props: {},
+		},
+		restore: () => Reflect.deleteProperty(globalThis, "caches"),
+	};
+};
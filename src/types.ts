@@ -1,4 +1,11 @@
-import type { KVNamespace } from "@cloudflare/workers-types";
+import type {
+	D1Database,
+	DurableObjectNamespace,
+	KVNamespace,
+	Queue,
+	R2Bucket,
+} from "@cloudflare/workers-types";
+import type { ChangeEventType } from "./drive";
 
 /* -------------------------------------------------------------------------- */
 /*                               Cloudflare KV Types                          */
@@ -48,6 +55,47 @@ export interface OAuthSecrets {
 	};
 }
 
+/**
+ * Authorization started by `/oauth/url` and finished by `/oauth/callback`
+ */
+export interface PendingAuthorization {
+	/** Account the tokens are stored for */
+	accountId: string;
+
+	/** Redirect URI sent to Google; the code exchange must repeat it */
+	redirectUri: string;
+
+	/** Create a start page token once authorized */
+	initTracking: boolean;
+
+	/** Shared drive to track instead of My Drive */
+	driveId?: string | null;
+
+	/** Also create a watch channel delivering to this URL */
+	webhookUrl?: string;
+
+	/** PKCE code verifier sent with the code exchange; sealed in KV */
+	codeVerifier: string;
+
+	/** Creation time in milliseconds since epoch */
+	createdAt: number;
+}
+
+/**
+ * Google refused the account's refresh token; stored under
+ * `reauth_required` until the account is authorized again
+ */
+export interface ReauthState {
+	/** OAuth error code, e.g. `invalid_grant` */
+	error: string;
+
+	/** Google's `error_description`, when given */
+	description?: string;
+
+	/** When the refusal was seen, in milliseconds since epoch */
+	since: number;
+}
+
 /* -------------------------------------------------------------------------- */
 /*                               Cloudflare Worker Bindings                   */
 /* -------------------------------------------------------------------------- */
@@ -55,6 +103,24 @@ export interface OAuthSecrets {
 export type AppBindings = {
 	/** Cloudflare KV Namespace for storing Drive tokens & data */
 	drive_kv: KVNamespace;
+	/** Per-account Durable Object that serializes change processing */
+	CHANGE_PROCESSOR: DurableObjectNamespace;
+	/** Durable Object counting rate-limit buckets */
+	RATE_LIMITER: DurableObjectNamespace;
+	/** JSON overrides of rate-limit policies, keyed by policy name */
+	RATE_LIMITS?: string;
+	/** Queue carrying change notifications and subscriber deliveries */
+	CHANGE_QUEUE: Queue<QueueJob>;
+	/** Base64 AES-256 key sealing OAuth credentials in KV */
+	MASTER_KEY: string;
+	/** Previous master key, kept only while rotating */
+	MASTER_KEY_PREVIOUS?: string;
+	/** R2 bucket receiving copies of watched files; mirroring is off without it */
+	MIRROR_BUCKET?: R2Bucket;
+	/** Object key layout for mirrored files */
+	MIRROR_KEY_TEMPLATE?: string;
+	/** D1 database holding the change history; history is off without it */
+	HISTORY_DB?: D1Database;
 	/** App-specific config */
 	WEBHOOK_AUTH_KEY: string;
 	CLOUDFLARE_API_TOKEN: string;
@@ -67,4 +133,362 @@ export type WatchChannel = {
 	webhookUrl: string;
 	expiration: number;
 	webhookToken: string;
+	/** Shared drive to watch instead of My Drive */
+	driveId?: string | null;
 };
+
+export type FileWatchChannel = Omit<
+	WatchChannel,
+	"startPageToken" | "driveId"
+> & {
+	fileId: string;
+};
+
+/**
+ * `files.watch` channel on a single file
+ */
+export interface FileWatch {
+	/** Google Drive file ID */
+	fileId: string;
+
+	/** Channel ID (`X-Goog-Channel-ID`) */
+	channelId: string;
+
+	/** Resource ID returned by Google (`X-Goog-Resource-ID`) */
+	resourceId: string;
+
+	/** Channel token (`X-Goog-Channel-Token`) */
+	webhookToken: string;
+
+	/** Webhook URL the channel delivers to */
+	webhookUrl: string;
+
+	/** Channel expiry in milliseconds since epoch */
+	expiration: number;
+
+	/** Registration time in milliseconds since epoch */
+	createdAt: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               R2 Mirror                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Running totals of the R2 mirror for one account
+ */
+export interface MirrorStatus {
+	/** Files copied into the bucket */
+	mirrored: number;
+
+	/** Changes skipped because the checksum was unchanged */
+	skipped: number;
+
+	/** Copies that failed */
+	failed: number;
+
+	/** Time of the last successful copy in milliseconds since epoch */
+	lastMirroredAt?: number;
+
+	/** Object key of the last successful copy */
+	lastKey?: string;
+
+	/** Most recent failure */
+	lastError?: { fileId: string; message: string; at: number };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Change Rules                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Conditions a change must meet for a rule to fire; every condition that is
+ * set has to match
+ */
+export interface RuleConditions {
+	/** Allowed MIME types (`image/*` style wildcards allowed) */
+	mimeTypes?: string[];
+
+	/** Shell-style glob the file name must match (`*`, `?`) */
+	nameGlob?: string;
+
+	/** Regular expression the file name must match */
+	namePattern?: string;
+
+	/** Minimum file size in bytes */
+	minSize?: number;
+
+	/** Maximum file size in bytes */
+	maxSize?: number;
+
+	/** Owner email addresses, any of which may own the file */
+	owners?: string[];
+
+	/** Email addresses of users whose edits count */
+	modifiedBy?: string[];
+
+	/** Event types the rule applies to */
+	events?: ChangeEventType[];
+}
+
+/**
+ * What a rule does with a matching change
+ */
+export type RuleAction =
+	/** Deliver a `rule.matched` event to subscribers (all when omitted) */
+	| { type: "notify"; destinations?: string[] }
+	/** Attach labels to the change payload */
+	| { type: "tag"; tags: string[] }
+	/** Drop the change for this folder */
+	| { type: "ignore" }
+	/** Copy the file into another folder */
+	| { type: "copy"; folderId: string }
+	/** Move the file into another folder */
+	| { type: "move"; folderId: string };
+
+/**
+ * Per-folder rule evaluated for every change in the folder
+ */
+export interface Rule {
+	/** Rule identifier */
+	id: string;
+
+	/** Watched folder the rule belongs to */
+	folderId: string;
+
+	/** Human-readable name */
+	name?: string;
+
+	/** Disabled rules are kept but never evaluated */
+	enabled: boolean;
+
+	/** Conditions the change must meet */
+	conditions: RuleConditions;
+
+	/** Actions run, in order, when the conditions match */
+	actions: RuleAction[];
+
+	/** Creation time in milliseconds since epoch */
+	createdAt: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Change Queue                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Verified change-feed notification waiting to be processed
+ */
+export interface ChangeJob {
+	/** Absent on jobs enqueued before the queue carried other kinds */
+	kind?: "changes";
+
+	/** Account whose change feed to walk */
+	accountId: string;
+
+	/** Channel the notification arrived on */
+	channelId: string;
+
+	/** `X-Goog-Message-Number` of the notification */
+	messageNumber: number;
+
+	/** Receipt time in milliseconds since epoch */
+	receivedAt: number;
+}
+
+/**
+ * Subscriber delivery waiting for its next attempt
+ */
+export interface DeliveryJob {
+	kind: "delivery";
+
+	/** Account the subscriber belongs to */
+	accountId: string;
+
+	/** Subscription to deliver to */
+	subscriptionId: string;
+
+	/** Delivery ID, identical across attempts */
+	deliveryId: string;
+
+	/** Event name of the payload */
+	event: string;
+
+	/** Payload JSON, re-sent unchanged on every attempt */
+	body: string;
+
+	/** Attempts made so far */
+	attempts: number;
+}
+
+/**
+ * Verified single-file push waiting to be fanned out to subscribers
+ */
+export interface FileWatchJob {
+	kind: "file_watch";
+
+	/** Account owning the file channel */
+	accountId: string;
+
+	/** Channel that delivered the push */
+	channelId: string;
+
+	/** Watched file */
+	fileId: string;
+
+	/** Value of `X-Goog-Resource-State` */
+	state: string;
+
+	/** Values of `X-Goog-Changed` */
+	changed: string[];
+
+	/** When the push was received, in milliseconds since epoch */
+	receivedAt: number;
+}
+
+/** Any message on the `drive-changes` queue */
+export type QueueJob = ChangeJob | DeliveryJob | FileWatchJob;
+
+/**
+ * Queue job that exhausted its retries
+ */
+export interface DeadJob {
+	/** Queue message ID */
+	id: string;
+
+	/** The job as it was enqueued */
+	job: QueueJob;
+
+	/** Delivery attempts made before giving up */
+	attempts: number;
+
+	/** Time it reached the dead-letter queue in milliseconds since epoch */
+	deadAt: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Change History                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Processed change as stored in the `change_history` table
+ */
+export interface ChangeRecord {
+	/** Row ID, increasing in processing order */
+	id: number;
+
+	/** Google Drive file ID */
+	fileId: string;
+
+	/** File name at the time of the change, when known */
+	name: string | null;
+
+	/** What happened to the file */
+	type: ChangeEventType;
+
+	/** Watched folder the change matched */
+	folderId: string;
+
+	/** Email (or display name) of the user who last modified the file */
+	actor: string | null;
+
+	/** Time of the change (ISO 8601) */
+	changedAt: string;
+
+	/** Page token of the `changes.list` page the change came from */
+	pageToken: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Subscriber Fan-out                           */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Downstream endpoint that receives matched Drive changes
+ */
+export interface Subscription {
+	/** Subscription identifier */
+	id: string;
+
+	/** Target URL receiving signed POST deliveries */
+	url: string;
+
+	/** Shared secret used for the HMAC-SHA256 signature */
+	secret: string;
+
+	/** Optional human-readable description */
+	description?: string;
+
+	/** Creation time in milliseconds since epoch */
+	createdAt: number;
+}
+
+/**
+ * Outcome of a single delivery to a subscriber
+ */
+export interface DeliveryRecord {
+	/** Delivery identifier (sent as `X-Drive-Webhook-Delivery`) */
+	deliveryId: string;
+
+	/** Event name of the delivered payload */
+	event: string;
+
+	/** Whether the subscriber eventually acknowledged with a 2xx */
+	success: boolean;
+
+	/** Number of attempts made (including retries) */
+	attempts: number;
+
+	/** Last HTTP status received, if any */
+	status?: number;
+
+	/** Last error message, if any */
+	error?: string;
+
+	/** Time of the last attempt in milliseconds since epoch */
+	deliveredAt: number;
+
+	/** Time of the queued retry; absent once the delivery is final */
+	nextAttemptAt?: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Watched Folders                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Per-folder change filters; a change must satisfy every filter that is set
+ */
+export interface FolderFilters {
+	/** Allowed MIME types (`image/*` style wildcards allowed) */
+	mimeTypes?: string[];
+
+	/** Regular expression the file name must match */
+	namePattern?: string;
+}
+
+/**
+ * Google Drive folder registered for change tracking
+ */
+export interface WatchedFolder {
+	/** Google Drive folder ID */
+	id: string;
+
+	/** Human-readable label */
+	label?: string;
+
+	/** Filters applied to changes inside this folder */
+	filters?: FolderFilters;
+
+	/** Also match changes in subfolders */
+	recursive?: boolean;
+
+	/** Subfolder levels matched when recursive; 1 is direct children only */
+	maxDepth?: number;
+
+	/** Subscription IDs to notify; every subscriber when empty */
+	destinations?: string[];
+
+	/** Registration time in milliseconds since epoch */
+	createdAt: number;
+}
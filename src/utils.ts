@@ -7,3 +7,16 @@ export const TEMP_EXT = ".tmp";
 export const logger = new Signale({
 	scope: name,
 });
+
+export function sleep(ms: number) {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function isValidRegExp(pattern: string) {
+	try {
+		new RegExp(pattern);
+		return true;
+	} catch {
+		return false;
+	}
+}